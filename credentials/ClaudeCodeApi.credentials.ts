@@ -0,0 +1,180 @@
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class ClaudeCodeApi implements ICredentialType {
+	name = 'claudeCodeApi';
+
+	displayName = 'Claude Code API';
+
+	documentationUrl =
+		'https://docs.anthropic.com/en/docs/claude-code/settings#environment-variables';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Authentication',
+			name: 'authType',
+			type: 'options',
+			options: [
+				{
+					name: 'Amazon Bedrock',
+					value: 'bedrock',
+				},
+				{
+					name: 'Anthropic API Key',
+					value: 'apiKey',
+				},
+				{
+					name: 'Custom Base URL',
+					value: 'customBaseUrl',
+				},
+				{
+					name: 'Google Vertex AI',
+					value: 'vertex',
+				},
+			],
+			default: 'apiKey',
+		},
+		{
+			displayName: 'API Key',
+			name: 'apiKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			required: true,
+			displayOptions: {
+				show: {
+					authType: ['apiKey'],
+				},
+			},
+		},
+		{
+			displayName: 'Base URL',
+			name: 'baseUrl',
+			type: 'string',
+			default: '',
+			required: true,
+			placeholder: 'e.g. https://llm-proxy.example.com',
+			description: 'URL of an Anthropic-compatible API, such as an LLM gateway or proxy',
+			displayOptions: {
+				show: {
+					authType: ['customBaseUrl'],
+				},
+			},
+		},
+		{
+			displayName: 'API Key',
+			name: 'proxyApiKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'Sent as the x-api-key header. Leave empty if the proxy does not need it.',
+			displayOptions: {
+				show: {
+					authType: ['customBaseUrl'],
+				},
+			},
+		},
+		{
+			displayName: 'Auth Token',
+			name: 'authToken',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description:
+				'Sent as a Bearer token in the Authorization header. Leave empty if the proxy does not need it.',
+			displayOptions: {
+				show: {
+					authType: ['customBaseUrl'],
+				},
+			},
+		},
+		{
+			displayName: 'AWS Region',
+			name: 'awsRegion',
+			type: 'string',
+			default: 'us-east-1',
+			required: true,
+			displayOptions: {
+				show: {
+					authType: ['bedrock'],
+				},
+			},
+		},
+		{
+			displayName: 'Access Key ID',
+			name: 'awsAccessKeyId',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'Leave empty to use the AWS credentials of the n8n host',
+			displayOptions: {
+				show: {
+					authType: ['bedrock'],
+				},
+			},
+		},
+		{
+			displayName: 'Secret Access Key',
+			name: 'awsSecretAccessKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			displayOptions: {
+				show: {
+					authType: ['bedrock'],
+				},
+			},
+		},
+		{
+			displayName: 'Session Token',
+			name: 'awsSessionToken',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'Only needed for temporary security credentials',
+			displayOptions: {
+				show: {
+					authType: ['bedrock'],
+				},
+			},
+		},
+		{
+			displayName: 'Project ID',
+			name: 'vertexProjectId',
+			type: 'string',
+			default: '',
+			required: true,
+			description: 'Google Cloud project with Claude enabled in Vertex AI',
+			displayOptions: {
+				show: {
+					authType: ['vertex'],
+				},
+			},
+		},
+		{
+			displayName: 'Region',
+			name: 'vertexRegion',
+			type: 'string',
+			default: 'us-east5',
+			required: true,
+			displayOptions: {
+				show: {
+					authType: ['vertex'],
+				},
+			},
+		},
+		{
+			displayName: 'Service Account Key File',
+			name: 'vertexCredentialsFile',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. /home/node/.config/gcloud/service-account.json',
+			description:
+				'Path to a service account key file on the n8n host. Leave empty to use Application Default Credentials.',
+			displayOptions: {
+				show: {
+					authType: ['vertex'],
+				},
+			},
+		},
+	];
+}
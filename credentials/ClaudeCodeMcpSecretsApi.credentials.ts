@@ -0,0 +1,23 @@
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class ClaudeCodeMcpSecretsApi implements ICredentialType {
+	name = 'claudeCodeMcpSecretsApi';
+
+	displayName = 'Claude Code MCP Secrets API';
+
+	documentationUrl = 'https://docs.anthropic.com/en/docs/claude-code/mcp';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Secrets',
+			name: 'secrets',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			required: true,
+			placeholder: 'e.g. {"GITHUB_TOKEN": "ghp_..."}',
+			description:
+				'JSON object of secret names and values. Reference them in MCP server settings as ${NAME}.',
+		},
+	];
+}
@@ -1,6 +1,12 @@
-// Export the compiled n8n node
+// Export the compiled n8n node and credentials
 module.exports = {
+	credentials: [
+		'dist/credentials/ClaudeCodeApi.credentials.js',
+		'dist/credentials/ClaudeCodeMcpSecretsApi.credentials.js'
+	],
 	nodes: [
-		'dist/nodes/ClaudeCode/ClaudeCode.node.js'
+		'dist/nodes/ClaudeCode/ClaudeCode.node.js',
+		'dist/nodes/ClaudeCode/ClaudeCodeTool.node.js',
+		'dist/nodes/ClaudeCode/ClaudeCodeTrigger.node.js'
 	]
 };
\ No newline at end of file
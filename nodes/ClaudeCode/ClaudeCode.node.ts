@@ -1,13 +1,157 @@
 import type {
+	IBinaryKeyData,
+	IDataObject,
 	IExecuteFunctions,
+	INode,
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
+	IWebhookFunctions,
+	IWebhookResponseData,
 } from 'n8n-workflow';
-import { NodeConnectionType, NodeOperationError } from 'n8n-workflow';
-import { query, type SDKMessage } from '@anthropic-ai/claude-code';
+import { NodeConnectionType, NodeOperationError, WAIT_INDEFINITELY, jsonParse } from 'n8n-workflow';
+import type { McpServerConfig, SDKMessage, SDKSystemMessage } from '@anthropic-ai/claude-code';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+	buildMcpServers,
+	getMcpSecrets,
+	parseMcpToolNames,
+	type McpServerParameters,
+} from './utils/mcp';
+import { finishGitRun, startGitRun, type GitOptions, type GitRun } from './utils/git';
+import { getItemBudgetLimits, UsageMeter } from './utils/budget';
+import {
+	checkJsonSchema,
+	extractJson,
+	validateJsonSchema,
+	type JsonSchema,
+} from './utils/jsonSchema';
+import {
+	ATTACHMENT_FOLDER,
+	attachFiles,
+	findOutputFiles,
+	getAttachmentProperties,
+	removeAttachments,
+	type AttachmentFile,
+	type AttachmentOptions,
+} from './utils/attachments';
+import {
+	createConversationInput,
+	getConversationTurns,
+	splitTurns,
+	type ConversationTurn,
+} from './utils/conversation';
+import { getFileSnapshot } from './utils/files';
+import { getWorkingDirectory, testProjectPath } from './utils/preflight';
+import {
+	createDebugLog,
+	DebugTrace,
+	getSystemContext,
+	redactQueryOptions,
+	type DebugLog,
+} from './utils/trace';
+import { loadProjectContext, type ContextOptions } from './utils/context';
+import { fillPromptTemplate, type PromptVariable } from './utils/templates';
+import {
+	describeVerificationFailure,
+	runVerification,
+	type VerificationOptions,
+} from './utils/verification';
+import {
+	removeAgentFiles,
+	writeAgentFiles,
+	type AgentFile,
+	type SlashCommandParameters,
+	type SubagentParameters,
+} from './utils/agents';
+import { getProgressEvents, getToolCalls, summarizeToolCalls } from './utils/messages';
+import {
+	checkAutoExecuteRule,
+	describeApprovedPlan,
+	findPlan,
+	getApprovePrompt,
+	getPlanModeAllowedTools,
+	getPlanningInstructions,
+	getPlanPrompt,
+	parsePlan,
+	PLAN_MODE_BLOCKED_TOOLS,
+	toPlan,
+	toStepNumbers,
+	type AutoExecuteRule,
+} from './utils/plan';
+import {
+	buildToolRules,
+	findDeniedToolCalls,
+	findPermissionRequest,
+	getPermissionRule,
+	type PermissionRequest,
+	type ToolRuleParameters,
+} from './utils/permissions';
+import {
+	discardApprovalState,
+	getApprovalDecisions,
+	getApprovalState,
+	removeApprovalState,
+	removeExpiredApprovals,
+	saveApprovalState,
+	type ApprovalDecision,
+	type ApprovalState,
+	type PendingApproval,
+	type RunState,
+	type StoredQueryOptions,
+} from './utils/approvals';
+import {
+	checkSessionId,
+	getCredentialEnvironment,
+	getLastQuery,
+	getResult,
+	getResultMessage,
+	getRunMetrics,
+	getSessionId,
+	getStopReason,
+	type QueryOptions,
+} from './utils/query';
+import {
+	classifyError,
+	getQueryError,
+	getResultErrorType,
+	runQueryWithRetry,
+	type ErrorType,
+} from './utils/retry';
+import { BUILT_IN_TOOL_OPTIONS } from './utils/tools';
+import {
+	archiveWorkspace,
+	checkWorkspaceOptions,
+	createWorkspace,
+	getWorkspaceChanges,
+	removeWorkspace,
+	type Workspace,
+	type WorkspaceMode,
+} from './utils/workspace';
+
+const DEFAULT_CONTINUE_PROMPT =
+	'You ran out of turns before finishing. Continue the task from where you stopped.';
+
+// Callbacks and secrets of the run of one item, which are never stored with a pending approval
+interface RunContext {
+	node: INode;
+	helpers: Pick<IExecuteFunctions['helpers'], 'prepareBinaryData'>;
+	queryOptions: QueryOptions;
+	environment: Record<string, string | undefined>;
+	stopSignal: AbortSignal;
+	log?: DebugLog;
+	trace?: DebugTrace;
+	tracePhase: (phase: string) => void;
+	conversationTurns?: ConversationTurn[];
+	// Adds a message to the usage and returns false once a budget limit is reached
+	checkBudget: (message: SDKMessage) => boolean;
+	// Moves the cost of the run so far into the execution total
+	countCost: () => void;
+	onMessage: (message: SDKMessage, received: SDKMessage[]) => boolean;
+	exceededLimit?: string;
+	permissionRequest?: PermissionRequest;
+}
 
 export class ClaudeCode implements INodeType {
 	description: INodeTypeDescription = {
@@ -23,7 +167,35 @@ export class ClaudeCode implements INodeType {
 			name: 'Claude Code',
 		},
 		inputs: [{ type: NodeConnectionType.Main }],
-		outputs: [{ type: NodeConnectionType.Main }],
+		outputs: `={{ ($parameter.additionalOptions || {}).emitEvents ? [{ type: "${NodeConnectionType.Main}", displayName: "Result" }, { type: "${NodeConnectionType.Main}", displayName: "Events" }] : [{ type: "${NodeConnectionType.Main}" }] }}`,
+		credentials: [
+			{
+				name: 'claudeCodeApi',
+				required: false,
+			},
+			{
+				name: 'claudeCodeMcpSecretsApi',
+				required: false,
+			},
+		],
+		webhooks: [
+			{
+				name: 'default',
+				httpMethod: 'GET',
+				responseMode: 'onReceived',
+				path: '',
+				restartWebhook: true,
+				isFullPath: true,
+			},
+			{
+				name: 'default',
+				httpMethod: 'POST',
+				responseMode: 'onReceived',
+				path: '',
+				restartWebhook: true,
+				isFullPath: true,
+			},
+		],
 		properties: [
 			{
 				displayName: 'Operation',
@@ -40,8 +212,14 @@ export class ClaudeCode implements INodeType {
 					{
 						name: 'Continue',
 						value: 'continue',
-						description: 'Continue a previous conversation (requires prior query)',
-						action: 'Continue a previous conversation requires prior query',
+						description: 'Continue a previous conversation by its session ID',
+						action: 'Continue a previous conversation by its session ID',
+					},
+					{
+						name: 'Conversation',
+						value: 'conversation',
+						description: 'Send every input item as the next message of one conversation',
+						action: 'Hold a conversation across the input items',
 					},
 					{
 						name: 'Plan',
@@ -58,8 +236,9 @@ export class ClaudeCode implements INodeType {
 					{
 						name: 'Test Project Path',
 						value: 'testPath',
-						description: 'Validate the project path without executing Claude Code',
-						action: 'Test and validate the specified project path',
+						description:
+							'Check the project path, CLI, authentication, configuration, git state and disk space without running Claude Code',
+						action: 'Run preflight checks for the specified project path',
 					},
 				],
 				default: 'query',
@@ -82,6 +261,130 @@ export class ClaudeCode implements INodeType {
 					},
 				},
 			},
+			{
+				displayName: 'Prompt Variables',
+				name: 'promptVariables',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				placeholder: 'Add Variable',
+				default: {},
+				description:
+					'Placeholders such as {title} in the Prompt and System Prompt, filled from fields of each input item',
+				displayOptions: {
+					hide: {
+						operation: ['testPath'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Variable',
+						name: 'variables',
+						values: [
+							{
+								displayName: 'Default Value',
+								name: 'defaultValue',
+								type: 'string',
+								default: '',
+								description:
+									'Used when the item has none of the fields. Leave empty to fail the item instead.',
+							},
+							{
+								displayName: 'Fields',
+								name: 'field',
+								type: 'string',
+								default: '',
+								required: true,
+								placeholder: 'e.g. title, issue.title, subject',
+								description:
+									'Field of the input item to read, with dots for nested fields. List several, comma-separated, to use the first one the item has.',
+							},
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								required: true,
+								placeholder: 'e.g. title',
+								description: 'Write {name} in the prompt where the value goes',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Session ID',
+				name: 'sessionId',
+				type: 'string',
+				default: '',
+				description:
+					'The session ID returned by a previous Query or Plan run. Exactly this conversation is resumed.',
+				required: true,
+				placeholder: 'e.g., 550e8400-e29b-41d4-a716-446655440000',
+				hint: 'Use expressions like {{$json.sessionId}} to resume the session of a previous Claude Code node',
+				displayOptions: {
+					show: {
+						operation: ['continue', 'approve'],
+					},
+				},
+			},
+			{
+				displayName: 'Session ID',
+				name: 'sessionId',
+				type: 'string',
+				default: '',
+				description:
+					'The session ID of a previous run to carry on with. Leave empty to start a new conversation.',
+				placeholder: 'e.g., 550e8400-e29b-41d4-a716-446655440000',
+				displayOptions: {
+					show: {
+						operation: ['conversation'],
+					},
+				},
+			},
+			{
+				displayName: 'Messages Field',
+				name: 'turnsField',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. questions',
+				description:
+					'Name of an input field holding a list of messages, each sent as its own turn. Leave empty to send the Prompt of each item.',
+				displayOptions: {
+					show: {
+						operation: ['conversation'],
+					},
+				},
+			},
+			{
+				displayName: 'Plan',
+				name: 'plan',
+				type: 'json',
+				default: '',
+				description:
+					'The plan object returned by the Plan operation. When set, Claude is told exactly which steps to execute. Leave empty to execute the plan from the session as it is.',
+				hint: 'Use {{ $json.plan }} to pass on the plan of a previous Plan run',
+				displayOptions: {
+					show: {
+						operation: ['approve'],
+					},
+				},
+			},
+			{
+				displayName: 'Skip Steps',
+				name: 'skipSteps',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. 2, 4',
+				description:
+					'Comma-separated numbers of plan steps that are not approved and must not be carried out',
+				displayOptions: {
+					show: {
+						operation: ['approve'],
+					},
+				},
+			},
 			{
 				displayName: 'Model',
 				name: 'model',
@@ -125,6 +428,66 @@ export class ClaudeCode implements INodeType {
 				placeholder: '/home/user/projects/my-app',
 				hint: 'This sets the working directory for Claude Code, allowing it to access files and run commands in the specified project location',
 			},
+			{
+				displayName: 'Workspace Mode',
+				name: 'workspaceMode',
+				type: 'options',
+				options: [
+					{
+						name: 'In Place',
+						value: 'inPlace',
+						description: 'Run directly in the Project Path',
+					},
+					{
+						name: 'Temporary Copy',
+						value: 'copy',
+						description:
+							'Run in a temporary copy of the Project Path, without .git and node_modules, that is deleted after the run',
+					},
+					{
+						name: 'Git Worktree',
+						value: 'worktree',
+						description:
+							'Run in a temporary git worktree of the current commit that is removed after the run',
+					},
+				],
+				default: 'inPlace',
+				description:
+					'Where Claude Code makes its changes. Isolated workspaces let items and workflows work on the same project without affecting each other.',
+				displayOptions: {
+					hide: {
+						operation: ['testPath'],
+					},
+				},
+			},
+			{
+				displayName: 'Workspace Output',
+				name: 'workspaceOutput',
+				type: 'options',
+				options: [
+					{
+						name: 'Diff',
+						value: 'diff',
+						description: 'Return the changed files and a unified diff of the workspace',
+					},
+					{
+						name: 'Archive',
+						value: 'archive',
+						description:
+							'Return the changed files and the whole workspace as a tar.gz file in the workspace binary property',
+					},
+				],
+				default: 'diff',
+				description: 'What to return from the isolated workspace before it is deleted',
+				displayOptions: {
+					show: {
+						workspaceMode: ['copy', 'worktree'],
+					},
+					hide: {
+						operation: ['testPath'],
+					},
+				},
+			},
 			{
 				displayName: 'Output Format',
 				name: 'outputFormat',
@@ -146,557 +509,2078 @@ export class ClaudeCode implements INodeType {
 						value: 'text',
 						description: 'Returns only the final result text',
 					},
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'Returns the answer as an object validated against a JSON Schema',
+					},
 				],
 				default: 'structured',
 				description: 'Choose how to format the output data',
 			},
+			{
+				displayName: 'JSON Schema',
+				name: 'jsonSchema',
+				type: 'json',
+				required: true,
+				default: '{\n  "type": "object",\n  "properties": {},\n  "required": []\n}',
+				description:
+					'Schema the answer must match. Claude is asked to reply in this shape and the reply is validated against it.',
+				displayOptions: {
+					show: {
+						outputFormat: ['json'],
+					},
+				},
+			},
+			{
+				displayName: 'Max Attempts',
+				name: 'jsonMaxAttempts',
+				type: 'number',
+				default: 3,
+				typeOptions: {
+					minValue: 1,
+				},
+				description:
+					'How many answers to accept before failing. Each extra attempt resumes the session with the validation errors.',
+				displayOptions: {
+					show: {
+						outputFormat: ['json'],
+					},
+				},
+			},
 			{
 				displayName: 'Allowed Tools',
 				name: 'allowedTools',
 				type: 'multiOptions',
-				options: [
-					// Built-in Claude Code tools
-					{ name: 'Bash', value: 'Bash', description: 'Execute bash commands' },
-					{ name: 'Edit', value: 'Edit', description: 'Edit files' },
-					{ name: 'Exit Plan Mode', value: 'exit_plan_mode', description: 'Exit planning mode' },
-					{ name: 'Glob', value: 'Glob', description: 'Find files by pattern' },
-					{ name: 'Grep', value: 'Grep', description: 'Search file contents' },
-					{ name: 'LS', value: 'LS', description: 'List directory contents' },
-					{ name: 'MultiEdit', value: 'MultiEdit', description: 'Make multiple edits' },
-					{ name: 'Notebook Edit', value: 'NotebookEdit', description: 'Edit Jupyter notebooks' },
-					{ name: 'Notebook Read', value: 'NotebookRead', description: 'Read Jupyter notebooks' },
-					{ name: 'Read', value: 'Read', description: 'Read file contents' },
-					{ name: 'Task', value: 'Task', description: 'Launch agents for complex searches' },
-					{ name: 'Todo Write', value: 'TodoWrite', description: 'Manage todo lists' },
-					{ name: 'Web Fetch', value: 'WebFetch', description: 'Fetch web content' },
-					{ name: 'Web Search', value: 'WebSearch', description: 'Search the web' },
-					{ name: 'Write', value: 'Write', description: 'Write files' },
-				],
+				options: BUILT_IN_TOOL_OPTIONS,
 				default: ['WebFetch', 'TodoWrite', 'WebSearch', 'exit_plan_mode', 'Task'],
 				description: 'Select which built-in tools Claude Code is allowed to use during execution',
 			},
 			{
-				displayName: 'Additional Options',
-				name: 'additionalOptions',
-				type: 'collection',
-				placeholder: 'Add Option',
+				displayName: 'MCP Servers',
+				name: 'mcpServers',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				placeholder: 'Add MCP Server',
 				default: {},
+				description:
+					'MCP servers to make available to Claude Code, in addition to any configured in the Project Path',
 				options: [
 					{
-						displayName: 'Auto-Execute Plan',
-						name: 'autoApprove',
-						type: 'boolean',
-						default: false,
-						description: 'Whether to automatically execute simple, low-risk plans after creation. If disabled, wait for explicit approval via Approve Plan operation.',
-						displayOptions: {
-							show: {
-								'/operation': ['plan'],
+						displayName: 'Server',
+						name: 'servers',
+						values: [
+							{
+								displayName: 'Arguments',
+								name: 'args',
+								type: 'string',
+								typeOptions: {
+									rows: 3,
+								},
+								default: '',
+								placeholder: 'e.g. -y',
+								description: 'Command-line arguments, one per line',
+								displayOptions: {
+									show: {
+										transport: ['stdio'],
+									},
+								},
 							},
-						},
-					},
-					{
-						displayName: 'Debug Mode',
-						name: 'debug',
-						type: 'boolean',
-						default: false,
-						description: 'Whether to enable debug logging',
-					},
-					{
-						displayName: 'Plan Detail Level',
-						name: 'planDetailLevel',
-						type: 'options',
-						options: [
 							{
-								name: 'High Level',
-								value: 'high',
-								description: 'Brief overview of main steps',
+								displayName: 'Command',
+								name: 'command',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. npx',
+								description: 'Executable that starts the server',
+								displayOptions: {
+									show: {
+										transport: ['stdio'],
+									},
+								},
 							},
 							{
-								name: 'Detailed',
-								value: 'detailed',
-								description: 'Comprehensive plan with specific actions',
+								displayName: 'Environment Variables',
+								name: 'env',
+								type: 'json',
+								default: '{}',
+								description:
+									'Environment variables for the server process. Use ${NAME} to insert a value from the Claude Code MCP Secrets credential.',
+								displayOptions: {
+									show: {
+										transport: ['stdio'],
+									},
+								},
 							},
 							{
-								name: 'Step-by-Step',
-								value: 'stepwise',
-								description: 'Granular breakdown of every action',
+								displayName: 'Headers',
+								name: 'headers',
+								type: 'json',
+								default: '{}',
+								description:
+									'HTTP headers to send. Use ${NAME} to insert a value from the Claude Code MCP Secrets credential.',
+								displayOptions: {
+									show: {
+										transport: ['sse', 'http'],
+									},
+								},
+							},
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								required: true,
+								placeholder: 'e.g. github',
+								description:
+									'Identifier of the server. Its tools are named mcp__&lt;name&gt;__&lt;tool&gt;.',
+							},
+							{
+								displayName: 'Transport',
+								name: 'transport',
+								type: 'options',
+								options: [
+									{
+										name: 'HTTP',
+										value: 'http',
+										description: 'Connect to a streamable HTTP endpoint',
+									},
+									{
+										name: 'SSE',
+										value: 'sse',
+										description: 'Connect to a server-sent events endpoint',
+									},
+									{
+										name: 'Stdio',
+										value: 'stdio',
+										description: 'Start a local process and talk to it over stdin/stdout',
+									},
+								],
+								default: 'stdio',
+							},
+							{
+								displayName: 'URL',
+								name: 'url',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. https://mcp.example.com/mcp',
+								displayOptions: {
+									show: {
+										transport: ['sse', 'http'],
+									},
+								},
 							},
 						],
-						default: 'detailed',
-						description: 'Level of detail for the generated plan (only applicable for Plan operation)',
 					},
+				],
+			},
+			{
+				displayName: 'Allowed MCP Tools',
+				name: 'allowedMcpTools',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. mcp__github__create_issue, mcp__postgres',
+				description:
+					'Comma-separated tools of the configured MCP servers that Claude Code is allowed to use: mcp__github for all tools of a server, mcp__github__create_issue for one',
+			},
+			{
+				displayName: 'Tool Rules',
+				name: 'toolRules',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				placeholder: 'Add Rule',
+				default: {},
+				description:
+					'Allow or deny tools, optionally only for matching arguments such as Bash(git:*). Deny rules always win; allow rules only matter when Require Permissions or an Approval Webhook URL is set.',
+				options: [
 					{
-						displayName: 'Plan Modifications',
-						name: 'planModifications',
-						type: 'string',
-						typeOptions: {
-							rows: 3,
-						},
-						default: '',
-						description: 'Modifications or feedback to apply to the plan before execution (only applicable for Approve Plan operation)',
-						placeholder: 'e.g., "Skip the testing step" or "Add error handling to step 3"',
+						displayName: 'Rule',
+						name: 'rules',
+						values: [
+							{
+								displayName: 'Action',
+								name: 'action',
+								type: 'options',
+								options: [
+									{
+										name: 'Allow',
+										value: 'allow',
+									},
+									{
+										name: 'Deny',
+										value: 'deny',
+									},
+								],
+								default: 'allow',
+							},
+							{
+								displayName: 'Pattern',
+								name: 'pattern',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. git:*',
+								description:
+									'Optional argument pattern. Bash takes a command or a prefix ending in :*, file tools take a path glob and WebFetch takes domain:host. Leave empty to match every call of the tool.',
+							},
+							{
+								displayName: 'Tool',
+								name: 'tool',
+								type: 'string',
+								default: '',
+								required: true,
+								placeholder: 'e.g. Bash',
+								description:
+									'Built-in tool name, or MCP tool name such as mcp__github__create_issue',
+							},
+						],
 					},
-					{
-						displayName: 'Require Permissions',
-						name: 'requirePermissions',
-						type: 'boolean',
-						default: false,
-						description: 'Whether to require permission for tool use',
+				],
+			},
+			{
+				displayName: 'Subagents',
+				name: 'subagents',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				placeholder: 'Add Subagent',
+				default: {},
+				description:
+					'Subagents Claude Code can hand tasks to with the Task tool, in addition to those in the Project Path. Needs the Temporary Copy or Git Worktree workspace mode; nothing is written into the project.',
+				displayOptions: {
+					hide: {
+						operation: ['testPath'],
 					},
+				},
+				options: [
 					{
-						displayName: 'System Prompt',
-						name: 'systemPrompt',
-						type: 'string',
-						typeOptions: {
-							rows: 4,
-						},
-						default: '',
-						description: 'Additional context or instructions for Claude Code',
-						placeholder:
-							'You are helping with a Python project. Focus on clean, readable code with proper error handling.',
+						displayName: 'Subagent',
+						name: 'agents',
+						values: [
+							{
+								displayName: 'Description',
+								name: 'description',
+								type: 'string',
+								default: '',
+								required: true,
+								placeholder: 'e.g. Reviews changed code for bugs and style issues',
+								description: 'Tells Claude Code when to use this subagent',
+							},
+							{
+								displayName: 'Model',
+								name: 'model',
+								type: 'options',
+								options: [
+									{
+										name: 'Haiku',
+										value: 'haiku',
+									},
+									{
+										name: 'Same as Main Session',
+										value: 'inherit',
+									},
+									{
+										name: 'Opus',
+										value: 'opus',
+									},
+									{
+										name: 'Sonnet',
+										value: 'sonnet',
+									},
+								],
+								default: 'inherit',
+							},
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								required: true,
+								placeholder: 'e.g. reviewer',
+								description: 'Lowercase letters, digits and hyphens',
+							},
+							{
+								displayName: 'System Prompt',
+								name: 'systemPrompt',
+								type: 'string',
+								typeOptions: {
+									rows: 4,
+								},
+								default: '',
+								description: 'Instructions that define how the subagent works',
+							},
+							{
+								displayName: 'Tools',
+								name: 'tools',
+								type: 'multiOptions',
+								options: BUILT_IN_TOOL_OPTIONS,
+								default: [],
+								description:
+									'Tools the subagent may use. Leave empty to give it all tools of the session.',
+							},
+						],
 					},
 				],
 			},
-		],
-	};
-
-	private static validateProjectPath(projectPath: string, debug: boolean = false): { valid: boolean; error?: string; warning?: string } {
-		const resolvedPath = path.resolve(projectPath);
-		
-		if (debug) {
-			console.log(`[ClaudeCode] Validating project path: ${projectPath} -> ${resolvedPath}`);
-		}
-		
-		// Check if path exists
-		if (!fs.existsSync(resolvedPath)) {
-			return {
-				valid: false,
-				error: `Project directory does not exist: ${resolvedPath}. Please create the directory or check the path.`
-			};
-		}
-		
-		// Check if it's a directory
-		const stats = fs.statSync(resolvedPath);
-		if (!stats.isDirectory()) {
-			return {
-				valid: false,
-				error: `Project path is not a directory: ${resolvedPath}. Please specify a valid directory path.`
-			};
-		}
-		
-		// Check read permissions
-		try {
-			fs.accessSync(resolvedPath, fs.constants.R_OK);
-		} catch {
+			{
+				displayName: 'Slash Commands',
+				name: 'slashCommands',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				placeholder: 'Add Slash Command',
+				default: {},
+				description:
+					'Reusable prompts that can be started with /name in the prompt, in addition to those in the Project Path. Needs the Temporary Copy or Git Worktree workspace mode; nothing is written into the project.',
+				displayOptions: {
+					hide: {
+						operation: ['testPath'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Command',
+						name: 'commands',
+						values: [
+							{
+								displayName: 'Description',
+								name: 'description',
+								type: 'string',
+								default: '',
+								description: 'Short description of what the command does',
+							},
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								required: true,
+								placeholder: 'e.g. write-tests',
+								description:
+									'Lowercase letters, digits and hyphens. Start the prompt with /name to use it.',
+							},
+							{
+								displayName: 'Prompt',
+								name: 'prompt',
+								type: 'string',
+								typeOptions: {
+									rows: 4,
+								},
+								default: '',
+								required: true,
+								placeholder: 'e.g. Write unit tests for $ARGUMENTS',
+								description:
+									'The prompt the command stands for. $ARGUMENTS is replaced with the text after the command.',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Context',
+				name: 'context',
+				type: 'collection',
+				placeholder: 'Add Context Option',
+				default: {},
+				description:
+					'Project files whose contents are added to the system prompt, such as CLAUDE.md or an API spec',
+				displayOptions: {
+					hide: {
+						operation: ['testPath'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Files',
+						name: 'files',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. CLAUDE.md, docs/openapi.yaml, src/api/**/*.ts',
+						description:
+							'Comma-separated file names or globs relative to the Project Path. Files are added in this order.',
+					},
+					{
+						displayName: 'Max File Size',
+						name: 'maxFileSize',
+						type: 'number',
+						default: 20000,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'Characters kept from each file; the rest is cut with a truncation marker. Use 0 for no limit.',
+					},
+					{
+						displayName: 'Max Total Size',
+						name: 'maxTotalSize',
+						type: 'number',
+						default: 100000,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'Characters of context for all files together. Files beyond it are left out and listed. Use 0 for no limit.',
+					},
+				],
+			},
+			{
+				displayName: 'Files',
+				name: 'attachments',
+				type: 'collection',
+				placeholder: 'Add File Option',
+				default: {},
+				description:
+					'Pass binary data of the input item to Claude Code and return files it creates',
+				displayOptions: {
+					hide: {
+						operation: ['testPath'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Attachment Location',
+						name: 'location',
+						type: 'options',
+						options: [
+							{
+								name: 'Scratch Folder',
+								value: 'scratch',
+								description: 'A temporary folder outside the project',
+							},
+							{
+								name: 'Working Directory',
+								value: 'workingDirectory',
+								description: `The ${ATTACHMENT_FOLDER} folder in the working directory`,
+							},
+						],
+						default: 'scratch',
+						description: 'Where attachments are written. They are removed again after the run.',
+					},
+					{
+						displayName: 'Input Binary Fields',
+						name: 'inputProperties',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. data, screenshot',
+						description:
+							'Comma-separated binary properties of the input item to attach. Their file paths are added to the prompt.',
+						displayOptions: {
+							hide: {
+								'/operation': ['conversation'],
+							},
+						},
+					},
+					{
+						displayName: 'Output Files',
+						name: 'outputFiles',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. reports/*.md, **/*.png',
+						description:
+							'Comma-separated globs relative to the working directory. Matching files that Claude Code creates or changes are returned as binary data.',
+					},
+					{
+						displayName: 'Send Images',
+						name: 'sendImages',
+						type: 'boolean',
+						default: true,
+						description:
+							'Whether image attachments (PNG, JPEG, GIF, WebP up to 5 MB) are also shown to Claude directly instead of only as files',
+						displayOptions: {
+							hide: {
+								'/operation': ['conversation'],
+							},
+						},
+					},
+				],
+			},
+			{
+				displayName: 'Git',
+				name: 'git',
+				type: 'collection',
+				placeholder: 'Add Git Option',
+				default: {},
+				description:
+					'Track the changes Claude Code makes in the git repository at the Project Path',
+				options: [
+					{
+						displayName: 'Commit Changes',
+						name: 'commit',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to commit the files the run changed after a successful run',
+					},
+					{
+						displayName: 'Commit Message',
+						name: 'commitMessage',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. fix: {prompt}',
+						description:
+							'Message for the commit. {prompt} and {result} are replaced with the first line of the prompt and of the result. Leave empty to generate one from the prompt.',
+						displayOptions: {
+							show: {
+								commit: [true],
+							},
+						},
+					},
+					{
+						displayName: 'Create Branch',
+						name: 'branch',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. claude/fix-login',
+						description:
+							'Name of a new branch to create and check out before the run. Leave empty to stay on the current branch.',
+					},
+					{
+						displayName: 'Require Clean Worktree',
+						name: 'requireClean',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to refuse to start when the worktree has uncommitted changes',
+					},
+					{
+						displayName: 'Track Changes',
+						name: 'trackChanges',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to output the changed files, unified diff and diff stats',
+					},
+				],
+			},
+			{
+				displayName: 'Verification',
+				name: 'verification',
+				type: 'collection',
+				placeholder: 'Add Verification Option',
+				default: {},
+				description:
+					'Run a command such as the tests after Claude Code finishes and hand failures back to the same session to fix',
+				displayOptions: {
+					hide: {
+						operation: ['conversation', 'testPath'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Command',
+						name: 'command',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. npm test',
+						description:
+							'Shell command run in the working directory after the run. A non-zero exit code counts as a failure.',
+					},
+					{
+						displayName: 'Fail When Unresolved',
+						name: 'failOnError',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to fail the item when the command still fails after the last repair round. Otherwise the result is only recorded in the output.',
+					},
+					{
+						displayName: 'Max Repair Rounds',
+						name: 'maxRounds',
+						type: 'number',
+						default: 2,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'How often to resume the session with the failing output and run the command again. Use 0 to only record the result.',
+					},
+					{
+						displayName: 'Timeout',
+						name: 'timeout',
+						type: 'number',
+						default: 300,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'Maximum time for one run of the command (in seconds). Use 0 for no limit.',
+					},
+				],
+			},
+			{
+				displayName: 'Additional Options',
+				name: 'additionalOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Approval Timeout',
+						name: 'approvalTimeout',
+						type: 'number',
+						default: 0,
+						description:
+							'Maximum time to wait for a tool permission decision (in minutes). Use 0 to wait indefinitely.',
+					},
+					{
+						displayName: 'Approval Webhook URL',
+						name: 'approvalWebhookUrl',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. https://n8n.example.com/webhook/claude-approvals',
+						description:
+							'When set, tool calls that are not allowed pause the execution and are sent to this URL. The execution resumes when the resumeUrl from that request is called with a decision per call, e.g. {"toolUseId": "toolu_1", "approved": true}.',
+					},
+					{
+						displayName: 'Auto Continue',
+						name: 'autoContinue',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'How often to resume a run that used up Max Turns before finishing. Use 0 to stop at Max Turns.',
+					},
+					{
+						displayName: 'Auto Continue Max Total Turns',
+						name: 'autoContinueMaxTurns',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'Stop continuing once the run and its continuations have used this many turns together. Use 0 for no limit. Max Cost (USD) also applies to all of them together.',
+					},
+					{
+						displayName: 'Auto Continue Prompt',
+						name: 'autoContinuePrompt',
+						type: 'string',
+						typeOptions: {
+							rows: 2,
+						},
+						default: DEFAULT_CONTINUE_PROMPT,
+						description: 'The message sent to resume a run that used up Max Turns',
+					},
+					{
+						displayName: 'Auto-Execute Allowed Paths',
+						name: 'autoExecutePaths',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. src/**, test/**/*.ts',
+						description:
+							'Comma-separated globs relative to the project. Plans that name files outside them are not auto-executed. Leave empty to allow any path.',
+						displayOptions: {
+							show: {
+								'/operation': ['plan'],
+							},
+						},
+					},
+					{
+						displayName: 'Auto-Execute Allowed Tools',
+						name: 'autoExecuteTools',
+						type: 'multiOptions',
+						options: BUILT_IN_TOOL_OPTIONS,
+						default: [],
+						description:
+							'Tools an auto-executed plan may use. Any other tool is denied. Leave empty to use Allowed Tools.',
+						displayOptions: {
+							show: {
+								'/operation': ['plan'],
+							},
+						},
+					},
+					{
+						displayName: 'Auto-Execute Max Steps',
+						name: 'autoExecuteMaxSteps',
+						type: 'number',
+						default: 5,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Plans with more steps are not auto-executed. Use 0 for no limit.',
+						displayOptions: {
+							show: {
+								'/operation': ['plan'],
+							},
+						},
+					},
+					{
+						displayName: 'Auto-Execute Plan',
+						name: 'autoApprove',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to execute the plan right away when it passes the Auto-Execute rules. Otherwise the plan waits for the Approve Plan operation.',
+						displayOptions: {
+							show: {
+								'/operation': ['plan'],
+							},
+						},
+					},
+					{
+						displayName: 'Auto-Execute Risky Plans',
+						name: 'autoExecuteRisky',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether plans may be auto-executed when Claude tried to delete files, change dependencies or make other risky tool calls while planning',
+						displayOptions: {
+							show: {
+								'/operation': ['plan'],
+							},
+						},
+					},
+					{
+						displayName: 'Concurrency',
+						name: 'concurrency',
+						type: 'number',
+						default: 1,
+						typeOptions: {
+							minValue: 1,
+						},
+						description:
+							'How many items run at the same time. Items that work on the same Project Path should use an isolated Workspace Mode.',
+					},
+					{
+						displayName: 'Debug Mode',
+						name: 'debug',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to log the steps of each run to the n8n log, tagged with the execution, node and item',
+					},
+					{
+						displayName: 'Emit Events Output',
+						name: 'emitEvents',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add a second output with one item per assistant text, tool_use, tool_result and result event. Events are also sent to the browser console while a manual execution runs.',
+					},
+					{
+						displayName: 'Execution Budget (USD)',
+						name: 'executionBudgetUsd',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 2,
+						},
+						description:
+							'Maximum cost of all items in this execution together. Items that would start after the budget is used up fail. Use 0 for no limit.',
+					},
+					{
+						displayName: 'Include Debug Trace',
+						name: 'debugTrace',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add debugTrace to the output, with the resolved options, system context, time per phase and the options passed to Claude Code with secrets redacted',
+					},
+					{
+						displayName: 'Max Cost (USD)',
+						name: 'maxCostUsd',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 2,
+						},
+						description:
+							'Stop the run once it has cost this much, estimated from token usage while it runs. Use 0 for no limit.',
+					},
+					{
+						displayName: 'Max Retries',
+						name: 'maxRetries',
+						type: 'number',
+						default: 2,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'How often to retry a run that failed with a rate limit or overloaded error. Retries resume the session when possible.',
+					},
+					{
+						displayName: 'Max Tokens',
+						name: 'maxTokens',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'Stop the run once it has processed this many input, output and cache tokens. Use 0 for no limit.',
+					},
+					{
+						displayName: 'Plan Detail Level',
+						name: 'planDetailLevel',
+						type: 'options',
+						options: [
+							{
+								name: 'High Level',
+								value: 'high',
+								description: 'Brief overview of main steps',
+							},
+							{
+								name: 'Detailed',
+								value: 'detailed',
+								description: 'Comprehensive plan with specific actions',
+							},
+							{
+								name: 'Step-by-Step',
+								value: 'stepwise',
+								description: 'Granular breakdown of every action',
+							},
+						],
+						default: 'detailed',
+						description:
+							'Level of detail for the generated plan (only applicable for Plan operation)',
+					},
+					{
+						displayName: 'Plan Modifications',
+						name: 'planModifications',
+						type: 'string',
+						typeOptions: {
+							rows: 3,
+						},
+						default: '',
+						description:
+							'Modifications or feedback to apply to the plan before execution (only applicable for Approve Plan operation)',
+						placeholder: 'e.g., "Skip the testing step" or "Add error handling to step 3"',
+					},
+					{
+						displayName: 'Require Permissions',
+						name: 'requirePermissions',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to require permission for tool use. Tools that are not allowed are denied unless an Approval Webhook URL is set.',
+					},
+					{
+						displayName: 'Retry Delay (Seconds)',
+						name: 'retryDelay',
+						type: 'number',
+						default: 5,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Wait before the first retry. The wait doubles with every further retry.',
+					},
+					{
+						displayName: 'System Prompt',
+						name: 'systemPrompt',
+						type: 'string',
+						typeOptions: {
+							rows: 4,
+						},
+						default: '',
+						description:
+							'Additional context or instructions for Claude Code, appended to its default system prompt. Supports Prompt Variables.',
+						placeholder:
+							'You are helping with a Python project. Focus on clean, readable code with proper error handling.',
+					},
+				],
+			},
+		],
+	};
+
+	/**
+	 * Formats the messages of a run, which may span several queries such as continuations
+	 * and repairs. The result and stop reason come from the last query; metrics, messages
+	 * and tool calls cover all of them.
+	 */
+	private static formatOutput(messages: SDKMessage[], outputFormat: string): IDataObject {
+		const lastQuery = getLastQuery(messages);
+		const sessionId = getSessionId(lastQuery);
+		const resultMessage = getResultMessage(lastQuery);
+		const result = resultMessage?.subtype === 'success' ? resultMessage.result : '';
+		const metrics = getRunMetrics(messages);
+
+		if (outputFormat === 'text') {
+			return {
+				result,
+				success: resultMessage?.subtype === 'success',
+				stopReason: getStopReason(lastQuery),
+				sessionId,
+				duration_ms: metrics?.duration_ms,
+				total_cost_usd: metrics?.total_cost_usd,
+			};
+		}
+
+		if (outputFormat === 'messages') {
+			// Return raw messages
 			return {
-				valid: false,
-				error: `No read permission for project directory: ${resolvedPath}. Please check directory permissions.`
+				messages,
+				messageCount: messages.length,
+				stopReason: getStopReason(lastQuery),
+				sessionId,
 			};
 		}
-		
-		// Check write permissions
+
+		// Parse into structured format
+		const userMessages = messages.filter((m) => m.type === 'user');
+		const assistantMessages = messages.filter((m) => m.type === 'assistant');
+		const toolCalls = getToolCalls(messages);
+		const { toolCounts, ...toolActivity } = summarizeToolCalls(toolCalls);
+		const systemInit = lastQuery.find(
+			(m): m is SDKSystemMessage => m.type === 'system' && m.subtype === 'init',
+		);
+
+		return {
+			messages,
+			summary: {
+				userMessageCount: userMessages.length,
+				assistantMessageCount: assistantMessages.length,
+				toolUseCount: toolCalls.length,
+				toolCounts,
+				hasResult: !!resultMessage,
+				toolsAvailable: systemInit?.tools ?? [],
+			},
+			result: result || null,
+			metrics: metrics as IDataObject | null,
+			toolCalls,
+			...toolActivity,
+			deniedToolCalls: findDeniedToolCalls(messages),
+			sessionId,
+			success: resultMessage?.subtype === 'success',
+			stopReason: getStopReason(lastQuery),
+		};
+	}
+
+	private static getNumTurns(messages: SDKMessage[]): number {
+		return getResultMessage(messages)?.num_turns ?? 0;
+	}
+
+	private static getJsonSchema(node: INode, value: unknown, itemIndex: number): JsonSchema {
+		const schema =
+			typeof value === 'string' ? jsonParse<unknown>(value, { fallbackValue: null }) : value;
+		if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+			throw new NodeOperationError(node, 'JSON Schema must be a JSON object', {
+				itemIndex,
+				type: 'invalid_json_schema',
+				description: 'For example {"type": "object", "properties": {"title": {"type": "string"}}}.',
+			});
+		}
+		// Checked before the run, so a broken schema does not fail an answer that was paid for
+		const errors = checkJsonSchema(schema as JsonSchema);
+		if (errors.length > 0) {
+			throw new NodeOperationError(node, 'JSON Schema cannot be used for validation', {
+				itemIndex,
+				type: 'invalid_json_schema',
+				description: errors.join('\n'),
+			});
+		}
+		return schema as JsonSchema;
+	}
+
+	private static getJsonInstructions(schema: JsonSchema): string {
+		return `When you have finished, reply with only a JSON value that matches this JSON Schema, without any other text:\n${JSON.stringify(schema, null, 2)}`;
+	}
+
+	/**
+	 * Extracts and validates the JSON answer, resuming the session with the validation
+	 * errors until the answer matches or the run's JSON attempts are used up.
+	 */
+	private static async getJsonOutput(
+		context: RunContext,
+		run: RunState,
+		schema: JsonSchema,
+		messages: SDKMessage[],
+	): Promise<{ json: IDataObject; messages: SDKMessage[] }> {
+		for (let attempt = 1; ; attempt++) {
+			const result = getResult(messages);
+			if (result === null) {
+				throw new NodeOperationError(context.node, 'Claude Code did not finish with an answer', {
+					itemIndex: run.itemIndex,
+					type: getResultErrorType(messages),
+					description:
+						'The run ended without a successful result, so there is no JSON to validate.',
+				});
+			}
+
+			const extracted = extractJson(result);
+			const errors = extracted
+				? validateJsonSchema(schema, extracted.value)
+				: ['The answer does not contain valid JSON'];
+			if (extracted && errors.length === 0) {
+				const value = extracted.value;
+				const json =
+					value !== null && typeof value === 'object' && !Array.isArray(value)
+						? (value as IDataObject)
+						: { data: value as IDataObject };
+				return { json, messages };
+			}
+
+			const sessionId = getSessionId(messages);
+			if (attempt >= run.jsonMaxAttempts || !sessionId) {
+				throw new NodeOperationError(
+					context.node,
+					`Claude Code's answer did not match the JSON Schema after ${attempt} attempt(s)`,
+					{
+						itemIndex: run.itemIndex,
+						type: 'schema_validation_error',
+						description: `${errors.join('\n')}\n\nLast answer:\n${result}`,
+					},
+				);
+			}
+
+			context.log?.(`JSON attempt ${attempt} rejected: ${errors.join('; ')}`);
+			messages = await ClaudeCode.queryRun(
+				context,
+				run,
+				'jsonOutput',
+				`Your answer did not match the JSON Schema:\n${errors.join('\n')}\n\nReply again with only the corrected JSON value.`,
+				{ resume: sessionId, maxTurns: run.maxTurns },
+			);
+		}
+	}
+
+	/**
+	 * Describes what changed in an isolated workspace, with an archive of it if requested.
+	 */
+	private static async getWorkspaceOutput(
+		workspace: Workspace,
+		workspaceOutput: string,
+	): Promise<IDataObject & { archive?: Buffer }> {
+		const { changedFiles, diff, diffStats } = await getWorkspaceChanges(workspace);
+		if (workspaceOutput === 'archive') {
+			const archive = await archiveWorkspace(workspace);
+			return { mode: workspace.mode, changedFiles, diffStats, archive };
+		}
+		return { mode: workspace.mode, changedFiles, diff, diffStats };
+	}
+
+	private static getBudgetError(
+		context: RunContext,
+		run: RunState,
+		messages: SDKMessage[],
+	): NodeOperationError {
+		return new NodeOperationError(context.node, `Claude Code stopped: ${context.exceededLimit}`, {
+			itemIndex: run.itemIndex,
+			type: 'budget_exceeded',
+			description: `The run was aborted before it finished. Continue session ${getSessionId(messages)} with a higher limit to pick up where it stopped.`,
+		});
+	}
+
+	/**
+	 * Sends the next prompt of a run with its own timeout, after merging options into the
+	 * query options of the run.
+	 */
+	private static async queryRun(
+		context: RunContext,
+		run: RunState,
+		phase: string,
+		prompt: string,
+		options: Partial<StoredQueryOptions>,
+	): Promise<SDKMessage[]> {
+		const abortController = new AbortController();
+		const stop = () => abortController.abort();
+		context.stopSignal.addEventListener('abort', stop, { once: true });
+		context.queryOptions.prompt = prompt;
+		context.queryOptions.options = { ...context.queryOptions.options, ...options, abortController };
+		context.tracePhase(phase);
+		const timeoutId = setTimeout(() => abortController.abort(), run.timeout * 1000);
+		let messages: SDKMessage[];
 		try {
-			fs.accessSync(resolvedPath, fs.constants.W_OK);
-		} catch {
-			return {
-				valid: false,
-				warning: `No write permission for project directory: ${resolvedPath}. Claude Code may not be able to create or modify files.`
-			};
+			messages = await runQueryWithRetry(
+				context.queryOptions,
+				context.environment,
+				run.retryOptions,
+				context.log,
+				context.onMessage,
+				(attempt, type, delayMs) =>
+					context.log?.(`Retry ${attempt} after ${type} error in ${delayMs}ms`),
+			);
+		} finally {
+			clearTimeout(timeoutId);
+			context.stopSignal.removeEventListener('abort', stop);
+			context.countCost();
 		}
-		
-		if (debug) {
-			console.log(`[ClaudeCode] Project path validation successful: ${resolvedPath}`);
+		run.messages.push(...messages);
+		if (context.exceededLimit) {
+			throw ClaudeCode.getBudgetError(context, run, messages);
 		}
-		
-		return { valid: true };
+		return messages;
 	}
 
-	private static generatePlanningSystemPrompt(detailLevel: string, autoApprove?: boolean): string {
-		let prompt = `You are Claude Code in planning mode. Your task is to create a comprehensive plan for the user's request and then use the ExitPlanMode tool to present it.
-
-Planning Guidelines:
-- Analyze the task thoroughly before creating the plan
-- Break down the task into logical, sequential steps
-- Consider dependencies between steps
-- Identify potential challenges or considerations
-- Suggest best practices and optimization opportunities`;
-
-		switch (detailLevel) {
-			case 'high':
-				prompt += `\n\nPlan Detail Level: HIGH LEVEL
-- Focus on major phases and key milestones
-- Keep each step broad and strategic
-- Limit to 3-7 main steps maximum`;
+	/**
+	 * Resumes a run that used up its turns, until it finishes or reaches a ceiling.
+	 */
+	private static async continueRun(
+		context: RunContext,
+		run: RunState,
+		messages: SDKMessage[],
+	): Promise<SDKMessage[]> {
+		const autoContinueMaxTurns = run.autoContinueMaxTurns || Infinity;
+		while (
+			!context.conversationTurns &&
+			!context.permissionRequest &&
+			getStopReason(messages) === 'max_turns' &&
+			run.continuations < run.autoContinue &&
+			run.totalTurns < autoContinueMaxTurns
+		) {
+			const sessionId = getSessionId(messages);
+			if (!sessionId) {
 				break;
-			case 'stepwise':
-				prompt += `\n\nPlan Detail Level: STEP-BY-STEP  
-- Provide granular, actionable steps
-- Include specific commands, file names, and configurations
-- Break down complex steps into sub-steps
-- Include validation and testing steps`;
-				break;
-			default: // 'detailed'
-				prompt += `\n\nPlan Detail Level: DETAILED
-- Provide specific, actionable steps
-- Include relevant technical details
-- Balance comprehensiveness with readability
-- Include key considerations for each step`;
+			}
+			run.continuations++;
+			context.log?.(
+				`Max turns reached after ${run.totalTurns} turns, continuing (${run.continuations})`,
+			);
+			messages = await ClaudeCode.queryRun(
+				context,
+				run,
+				'autoContinue',
+				run.autoContinuePrompt || DEFAULT_CONTINUE_PROMPT,
+				{
+					resume: sessionId,
+					maxTurns: Math.min(run.maxTurns, autoContinueMaxTurns - run.totalTurns),
+				},
+			);
+			run.totalTurns += ClaudeCode.getNumTurns(messages);
 		}
+		return messages;
+	}
 
-		if (autoApprove) {
-			prompt += `\n\nAuto-Execution Mode: If the plan is simple (≤5 steps) and low-risk (no destructive operations like deleting files or modifying critical system settings), you may proceed with execution after presenting the plan. For complex or potentially risky plans, always wait for user approval.`;
-		} else {
-			prompt += `\n\nApproval Required: Always wait for explicit user approval before executing the plan.`;
+	/**
+	 * Executes the plan of a plan run in its session if it passes the auto-execute rule,
+	 * and records the reasons it was not executed otherwise.
+	 */
+	private static async autoExecutePlan(
+		context: RunContext,
+		run: RunState,
+		messages: SDKMessage[],
+		rule: AutoExecuteRule,
+		options: Partial<StoredQueryOptions>,
+	): Promise<SDKMessage[]> {
+		const sessionId = getSessionId(messages);
+		const reasons = run.plan
+			? checkAutoExecuteRule(run.plan, rule)
+			: ['Claude Code did not present a plan'];
+		if (!sessionId) {
+			reasons.push('The plan run did not return a session ID');
+		}
+		run.autoExecute = { executed: reasons.length === 0, reasons };
+		if (!run.plan || !sessionId || reasons.length > 0) {
+			return messages;
 		}
 
-		prompt += `\n\nAfter creating your plan, use the ExitPlanMode tool to present it for review and approval.`;
+		context.log?.(`Auto-executing plan with ${run.plan.steps.length} steps`);
+		let prompt = `Please execute the plan you created.\n\n${describeApprovedPlan(run.plan, [])}`;
+		if (run.jsonSchema) {
+			prompt += `\n\n${ClaudeCode.getJsonInstructions(run.jsonSchema)}`;
+		}
+		return await ClaudeCode.queryRun(context, run, 'autoExecute', prompt, {
+			...options,
+			resume: sessionId,
+			maxTurns: run.maxTurns,
+		});
+	}
 
-		return prompt;
+	/**
+	 * Runs the verification command and hands failures back to the session to repair.
+	 * Rounds of a run resumed after a tool approval carry on from the rounds before it.
+	 */
+	private static async verifyRun(
+		context: RunContext,
+		run: RunState,
+		messages: SDKMessage[],
+	): Promise<SDKMessage[]> {
+		const command = run.verification.command?.trim();
+		if (
+			!command ||
+			context.permissionRequest ||
+			(run.operation === 'plan' && !run.autoExecute?.executed)
+		) {
+			return messages;
+		}
+		const maxRounds = run.verification.maxRounds ?? 2;
+		const rounds = run.verificationRounds;
+		for (;;) {
+			const round = rounds.length;
+			context.tracePhase('verification');
+			const check = await runVerification(
+				command,
+				run.cwd,
+				run.verification.timeout ?? 300,
+				context.stopSignal,
+			);
+			rounds.push({ round, ...check });
+			context.log?.(
+				`Verification round ${round} exited with ${check.exitCode}${check.timedOut ? ' (timed out)' : ''}`,
+			);
+			const repairSessionId = getSessionId(messages);
+			if (check.exitCode === 0 || round >= maxRounds || !repairSessionId) {
+				break;
+			}
+			let repairPrompt = describeVerificationFailure(command, check);
+			if (run.jsonSchema) {
+				repairPrompt += `\n\n${ClaudeCode.getJsonInstructions(run.jsonSchema)}`;
+			}
+			messages = await ClaudeCode.queryRun(context, run, 'repair', repairPrompt, {
+				resume: repairSessionId,
+				maxTurns: run.maxTurns,
+			});
+			// A repair that waits for a tool approval is verified once it is resumed
+			if (context.permissionRequest) {
+				return messages;
+			}
+		}
+		const lastRound = rounds[rounds.length - 1];
+		if (lastRound.exitCode !== 0 && run.verification.failOnError) {
+			throw new NodeOperationError(
+				context.node,
+				`Verification command failed after ${rounds.length - 1} repair round(s): ${command}`,
+				{
+					itemIndex: run.itemIndex,
+					type: 'verification_failed',
+					description: lastRound.output.slice(-2000),
+				},
+			);
+		}
+		return messages;
 	}
 
+	/**
+	 * Builds the output of a finished run: the answer in the output format, followed by
+	 * what the run changed and produced.
+	 */
+	private static async getRunOutput(
+		context: RunContext,
+		run: RunState,
+		messages: SDKMessage[],
+	): Promise<INodeExecutionData[]> {
+		// Attachments, subagents and slash commands must not end up in commits, diffs or output files
+		if (run.attachmentDirectory) {
+			removeAttachments(run.attachmentDirectory);
+			run.attachmentDirectory = undefined;
+		}
+		if (run.agentFiles) {
+			removeAgentFiles(run.cwd, run.agentFiles);
+			run.agentFiles = undefined;
+		}
+
+		const turns = context.conversationTurns;
+		let json: IDataObject;
+		let turnOutputs: IDataObject[] = [];
+		if (turns) {
+			turnOutputs = splitTurns(run.messages).map((turnMessages, index) => ({
+				turn: index + 1,
+				prompt: turns[index]?.prompt,
+				...ClaudeCode.formatOutput(turnMessages, run.outputFormat),
+			}));
+			// Git, workspace and output files of the whole conversation go on its last reply
+			json = turnOutputs.pop() ?? ClaudeCode.formatOutput(run.messages, run.outputFormat);
+		} else if (run.jsonSchema) {
+			context.tracePhase('jsonOutput');
+			try {
+				({ json, messages } = await ClaudeCode.getJsonOutput(
+					context,
+					run,
+					run.jsonSchema,
+					messages,
+				));
+			} catch (jsonError) {
+				throw context.exceededLimit ? ClaudeCode.getBudgetError(context, run, messages) : jsonError;
+			} finally {
+				context.countCost();
+			}
+		} else {
+			json = ClaudeCode.formatOutput(run.messages, run.outputFormat);
+		}
+		context.tracePhase('output');
+		if (run.continuations > 0 && !run.jsonSchema) {
+			json.autoContinue = { continuations: run.continuations, totalTurns: run.totalTurns };
+		}
+		if (run.operation === 'plan' && !run.jsonSchema) {
+			json.plan = (run.plan as unknown as IDataObject) ?? null;
+			if (run.autoExecute) {
+				json.autoExecute = run.autoExecute;
+			}
+		}
+		const rounds = run.verificationRounds;
+		if (rounds.length > 0) {
+			json.verification = {
+				command: run.verification.command?.trim(),
+				passed: rounds[rounds.length - 1].exitCode === 0,
+				repairRounds: rounds.length - 1,
+				rounds: rounds as unknown as IDataObject[],
+			};
+		}
+		if (run.git) {
+			json.git = await finishGitRun(run.git, getResult(messages));
+		}
+		const binary: IBinaryKeyData = {};
+		if (run.outputFiles) {
+			const outputFiles = await findOutputFiles(
+				run.cwd,
+				run.outputFiles.globs,
+				run.outputFiles.snapshot,
+			);
+			for (const [index, file] of outputFiles.entries()) {
+				binary[`file_${index}`] = await context.helpers.prepareBinaryData(
+					fs.readFileSync(path.join(run.cwd, file)),
+					file,
+				);
+			}
+			json.outputFiles = outputFiles.map((file, index) => ({
+				path: file,
+				binaryProperty: `file_${index}`,
+			}));
+		}
+		if (run.workspace) {
+			const { archive, ...workspaceJson } = await ClaudeCode.getWorkspaceOutput(
+				run.workspace,
+				run.workspaceOutput,
+			);
+			json.workspace = workspaceJson;
+			if (archive) {
+				binary.workspace = await context.helpers.prepareBinaryData(
+					archive,
+					'workspace.tar.gz',
+					'application/gzip',
+				);
+			}
+		}
+		if (context.trace) {
+			json.debugTrace = context.trace.toJSON();
+		}
+		return [
+			...turnOutputs.map((turnJson, index) => ({
+				json: turnJson,
+				pairedItem: turns![index].itemIndex,
+			})),
+			{
+				json,
+				...(Object.keys(binary).length > 0 && { binary }),
+				pairedItem: turns
+					? turns[Math.min(turnOutputs.length, turns.length - 1)].itemIndex
+					: run.itemIndex,
+			},
+		];
+	}
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+		const eventData: INodeExecutionData[] = [];
+		const pendingApprovals: PendingApproval[] = [];
+		const emitEvents = this.getNodeParameter('additionalOptions.emitEvents', 0, false) as boolean;
+		const executionBudgetUsd = this.getNodeParameter(
+			'additionalOptions.executionBudgetUsd',
+			0,
+			0,
+		) as number;
+		const concurrency = Math.max(
+			1,
+			this.getNodeParameter('additionalOptions.concurrency', 0, 1) as number,
+		);
+		let executionCostUsd = 0;
+		// Cost of runs still in progress that is not part of executionCostUsd yet
+		const runningCosts = new Map<number, () => number>();
+		const getExecutionCostUsd = () =>
+			[...runningCosts.values()].reduce((total, getCost) => total + getCost(), executionCostUsd);
+		// Aborts the items still running once one of them fails the node or the execution is stopped
+		const stopController = new AbortController();
+		this.getExecutionCancelSignal()?.addEventListener('abort', () => stopController.abort(), {
+			once: true,
+		});
+		const staticData = this.getWorkflowStaticData('node');
+		await removeExpiredApprovals(staticData);
 
-		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+		// Outputs are collected per item, so they keep the input order when items run in parallel
+		const itemOutputs: INodeExecutionData[][] = items.map(() => []);
+		const runItem = async (itemIndex: number) => {
+			const returnData = itemOutputs[itemIndex];
 			let timeout = 300; // Default timeout
+			let workspace: Workspace | undefined;
+			let attachmentDirectory: string | undefined;
+			let trace: DebugTrace | undefined;
+			let keepWorkspace = false;
+			// Stops this item when another item fails the node
+			const abortController = new AbortController();
+			const stopItem = () => abortController.abort();
+			stopController.signal.addEventListener('abort', stopItem, { once: true });
 			try {
 				const operation = this.getNodeParameter('operation', itemIndex) as string;
-				const prompt = this.getNodeParameter('prompt', itemIndex) as string;
+				const promptVariables = this.getNodeParameter(
+					'promptVariables.variables',
+					itemIndex,
+					[],
+				) as PromptVariable[];
+				const prompt = fillPromptTemplate(
+					this.getNode(),
+					this.getNodeParameter('prompt', itemIndex) as string,
+					promptVariables,
+					items[itemIndex].json,
+					itemIndex,
+				);
 				const model = this.getNodeParameter('model', itemIndex) as string;
 				const maxTurns = this.getNodeParameter('maxTurns', itemIndex) as number;
 				timeout = this.getNodeParameter('timeout', itemIndex) as number;
 				const projectPath = this.getNodeParameter('projectPath', itemIndex) as string;
+				const sessionId = (this.getNodeParameter('sessionId', itemIndex, '') as string).trim();
 				const outputFormat = this.getNodeParameter('outputFormat', itemIndex) as string;
-				const allowedTools = this.getNodeParameter('allowedTools', itemIndex, []) as string[];
+				const jsonSchema =
+					outputFormat === 'json'
+						? ClaudeCode.getJsonSchema(
+								this.getNode(),
+								this.getNodeParameter('jsonSchema', itemIndex),
+								itemIndex,
+							)
+						: undefined;
+				const allowedTools = [
+					...(this.getNodeParameter('allowedTools', itemIndex, []) as string[]),
+					...parseMcpToolNames(
+						this.getNode(),
+						this.getNodeParameter('allowedMcpTools', itemIndex, '') as string | string[],
+						itemIndex,
+					),
+				];
+				const mcpServerParameters = this.getNodeParameter(
+					'mcpServers.servers',
+					itemIndex,
+					[],
+				) as McpServerParameters[];
+				const toolRules = this.getNodeParameter(
+					'toolRules.rules',
+					itemIndex,
+					[],
+				) as ToolRuleParameters[];
+				const workspaceMode = this.getNodeParameter(
+					'workspaceMode',
+					itemIndex,
+					'inPlace',
+				) as WorkspaceMode;
+				const workspaceOutput = this.getNodeParameter(
+					'workspaceOutput',
+					itemIndex,
+					'diff',
+				) as string;
+				const gitOptions = this.getNodeParameter('git', itemIndex, {}) as GitOptions;
+				const verificationOptions =
+					operation === 'conversation'
+						? {}
+						: (this.getNodeParameter('verification', itemIndex, {}) as VerificationOptions);
+				const contextOptions = this.getNodeParameter('context', itemIndex, {}) as ContextOptions;
+				const attachmentOptions = this.getNodeParameter(
+					'attachments',
+					itemIndex,
+					{},
+				) as AttachmentOptions;
 				const additionalOptions = this.getNodeParameter('additionalOptions', itemIndex) as {
 					systemPrompt?: string;
 					planDetailLevel?: string;
 					planModifications?: string;
 					autoApprove?: boolean;
+					autoExecuteMaxSteps?: number;
+					autoExecutePaths?: string;
+					autoExecuteRisky?: boolean;
+					autoExecuteTools?: string[];
 					requirePermissions?: boolean;
+					approvalWebhookUrl?: string;
+					approvalTimeout?: number;
+					maxCostUsd?: number;
+					maxTokens?: number;
+					maxRetries?: number;
+					retryDelay?: number;
+					autoContinue?: number;
+					autoContinueMaxTurns?: number;
+					autoContinuePrompt?: string;
 					debug?: boolean;
+					debugTrace?: boolean;
 				};
+				const approvalWebhookUrl = (additionalOptions.approvalWebhookUrl || '').trim();
+				const debugLog = additionalOptions.debug
+					? createDebugLog(this.logger, {
+							executionId: this.getExecutionId(),
+							nodeName: this.getNode().name,
+							itemIndex,
+						})
+					: undefined;
+				if (additionalOptions.debugTrace || operation === 'testPath') {
+					trace = new DebugTrace();
+					trace.phase('setup');
+					trace.resolvedOptions = {
+						operation,
+						model,
+						maxTurns,
+						timeout,
+						projectPath,
+						sessionId: sessionId || null,
+						outputFormat,
+						workspaceMode,
+						workspaceOutput,
+						allowedTools,
+						toolRules: toolRules as unknown as IDataObject[],
+						mcpServers: mcpServerParameters.map((server) => server.name),
+						promptVariables: promptVariables as unknown as IDataObject[],
+						context: contextOptions as IDataObject,
+						attachments: attachmentOptions as IDataObject,
+						git: gitOptions as IDataObject,
+						verification: verificationOptions as IDataObject,
+						additionalOptions,
+					};
+				}
 
-				// Create abort controller for timeout
-				const abortController = new AbortController();
+				// Abort the item once it times out
 				const timeoutMs = timeout * 1000;
 				const timeoutId = setTimeout(() => abortController.abort(), timeoutMs);
 
 				// Validate required parameters
-				if (!prompt || prompt.trim() === '') {
+				if (
+					operation !== 'conversation' &&
+					operation !== 'testPath' &&
+					(!prompt || prompt.trim() === '')
+				) {
 					throw new NodeOperationError(this.getNode(), 'Prompt is required and cannot be empty', {
 						itemIndex,
 					});
 				}
 
 				// Log start
-				if (additionalOptions.debug) {
-					console.log(`[ClaudeCode] Starting execution for item ${itemIndex}`);
-					console.log(`[ClaudeCode] Prompt: ${prompt.substring(0, 100)}...`);
-					console.log(`[ClaudeCode] Model: ${model}`);
-					console.log(`[ClaudeCode] Max turns: ${maxTurns}`);
-					console.log(`[ClaudeCode] Timeout: ${timeout}s`);
-					console.log(`[ClaudeCode] Allowed built-in tools: ${allowedTools.join(', ')}`);
-					
-					// System context information
-					console.log(`[ClaudeCode] System context:`);
-					console.log(`  - Current working directory: ${process.cwd()}`);
-					console.log(`  - Process user: ${process.getuid ? process.getuid() : 'N/A'} (${process.env.USER || 'unknown'})`);
-					console.log(`  - Node.js version: ${process.version}`);
-					console.log(`  - Platform: ${process.platform}`);
-					if (projectPath) {
-						console.log(`  - Requested project path: ${projectPath}`);
+				if (debugLog) {
+					debugLog(`Starting ${operation} for item ${itemIndex}`, {
+						model,
+						maxTurns,
+						timeout,
+						allowedTools,
+						projectPath,
+					});
+					if (prompt) {
+						debugLog(`Prompt: ${prompt.substring(0, 100)}...`);
 					}
+					debugLog('System context', getSystemContext());
 				}
 
 				// Handle Test Project Path operation
 				if (operation === 'testPath') {
 					if (!projectPath || projectPath.trim() === '') {
-						throw new NodeOperationError(this.getNode(), 'Project Path is required for Test Project Path operation', {
-							itemIndex,
-							description: 'Please specify a project path to test in the Project Path field.',
-						});
-					}
-					
-					const trimmedPath = projectPath.trim();
-					const validation = ClaudeCode.validateProjectPath(trimmedPath, true); // Always debug for test
-					
-					console.log(`[ClaudeCode] Project Path Test Results:`);
-					console.log(`  - Original path: ${projectPath}`);
-					console.log(`  - Resolved path: ${path.resolve(trimmedPath)}`);
-					console.log(`  - Validation result: ${validation.valid ? 'PASSED' : 'FAILED'}`);
-					
-					if (validation.error) {
-						console.log(`  - Error: ${validation.error}`);
-					}
-					if (validation.warning) {
-						console.log(`  - Warning: ${validation.warning}`);
+						throw new NodeOperationError(
+							this.getNode(),
+							'Project Path is required for Test Project Path operation',
+							{
+								itemIndex,
+								description: 'Please specify a project path to test in the Project Path field.',
+							},
+						);
 					}
-					
+
+					const credentials = this.getNode().credentials?.claudeCodeApi
+						? await this.getCredentials('claudeCodeApi', itemIndex)
+						: undefined;
+					const testResult = await testProjectPath(
+						projectPath,
+						{ credentials, nodeMcpServers: mcpServerParameters.map((server) => server.name) },
+						trace,
+						debugLog,
+					);
+
 					// Return test results without executing Claude Code
 					returnData.push({
-						json: {
-							test: 'project_path_validation',
-							originalPath: projectPath,
-							resolvedPath: path.resolve(trimmedPath),
-							valid: validation.valid,
-							error: validation.error || null,
-							warning: validation.warning || null,
-							systemContext: {
-								currentWorkingDirectory: process.cwd(),
-								processUser: process.env.USER || 'unknown',
-								processUid: process.getuid ? process.getuid() : null,
-								platform: process.platform,
-								nodeVersion: process.version,
-							},
-							success: validation.valid,
-						},
+						json: { ...testResult, debugTrace: trace?.toJSON() ?? null },
 						pairedItem: itemIndex,
 					});
-					
+
 					// Skip the rest of the execution for test operation
-					continue;
+					return;
 				}
-				
+
 				// Handle operation-specific logic and system prompts
 				let operationPrompt = prompt;
-				let operationSystemPrompt = additionalOptions.systemPrompt || '';
-
+				let systemPrompt = fillPromptTemplate(
+					this.getNode(),
+					additionalOptions.systemPrompt || '',
+					promptVariables,
+					items[itemIndex].json,
+					itemIndex,
+				);
+				const detailLevel = additionalOptions.planDetailLevel || 'detailed';
+				const planningInstructions =
+					operation === 'plan' ? getPlanningInstructions(detailLevel) : '';
 				if (operation === 'plan') {
-					// Generate planning system prompt based on detail level
-					const detailLevel = additionalOptions.planDetailLevel || 'detailed';
-					const planningInstructions = ClaudeCode.generatePlanningSystemPrompt(detailLevel, additionalOptions.autoApprove);
-					operationSystemPrompt = operationSystemPrompt 
-						? `${operationSystemPrompt}\n\n${planningInstructions}`
-						: planningInstructions;
-					
-					// Modify the prompt to request a plan
-					operationPrompt = `Please create a ${detailLevel} plan for the following task. After creating the plan, use the ExitPlanMode tool to present it for approval:\n\n${prompt}`;
+					operationPrompt = getPlanPrompt(prompt, detailLevel);
 				} else if (operation === 'approve') {
-					// Handle plan approval with modifications
-					const modifications = additionalOptions.planModifications;
-					if (modifications && modifications.trim()) {
-						operationPrompt = `Please execute the previously created plan with the following modifications:\n\n${modifications}\n\nOriginal request: ${prompt}`;
-					} else {
-						operationPrompt = `Please execute the previously created plan for:\n\n${prompt}`;
-					}
+					operationPrompt = getApprovePrompt(
+						prompt,
+						additionalOptions.planModifications,
+						toPlan(this.getNodeParameter('plan', itemIndex, '')),
+						toStepNumbers(this.getNodeParameter('skipSteps', itemIndex, '')),
+					);
 				}
 
-				// Build query options
-				interface QueryOptions {
-					prompt: string;
-					abortController: AbortController;
-					cwd?: string;
-					options: {
-						maxTurns: number;
-						permissionMode: 'default' | 'bypassPermissions';
-						model: string;
-						systemPrompt?: string;
-						mcpServers?: Record<string, any>;
-						allowedTools?: string[];
-						continue?: boolean;
-					};
+				if (jsonSchema) {
+					operationPrompt += `\n\n${ClaudeCode.getJsonInstructions(jsonSchema)}`;
+				}
+
+				// Turn every input item, or every entry of the messages field, into a conversation turn
+				let conversation: ReturnType<typeof createConversationInput> | undefined;
+				let conversationTurns: ConversationTurn[] = [];
+				if (operation === 'conversation') {
+					if (jsonSchema) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'The JSON output format is not available for Conversation',
+							{
+								itemIndex,
+								description:
+									'Replies cannot be retried within a conversation. Use Query for JSON answers.',
+							},
+						);
+					}
+					conversationTurns = getConversationTurns(
+						this.getNode(),
+						items.map((item) => item.json),
+						(this.getNodeParameter('turnsField', itemIndex, '') as string).trim(),
+						(index) =>
+							fillPromptTemplate(
+								this.getNode(),
+								this.getNodeParameter('prompt', index, '') as string,
+								this.getNodeParameter('promptVariables.variables', index, []) as PromptVariable[],
+								items[index].json,
+								index,
+							),
+						itemIndex,
+					);
+					conversation = createConversationInput(conversationTurns);
 				}
 
+				// Build query options
 				const queryOptions: QueryOptions = {
-					prompt: operationPrompt,
-					abortController,
+					prompt: conversation?.prompt ?? operationPrompt,
 					options: {
+						abortController,
 						maxTurns,
-						permissionMode: additionalOptions.requirePermissions ? 'default' : 'bypassPermissions',
+						permissionMode:
+							operation === 'plan'
+								? 'plan'
+								: additionalOptions.requirePermissions || approvalWebhookUrl
+									? 'default'
+									: 'bypassPermissions',
 						model,
 					},
 				};
 
-				// Add system prompt if provided
-				if (operationSystemPrompt) {
-					queryOptions.options.systemPrompt = operationSystemPrompt;
-				}
-
-				// Add project path (cwd) if specified
-				if (projectPath && projectPath.trim() !== '') {
-					const trimmedPath = projectPath.trim();
-					
-					// Validate project path
-					const validation = ClaudeCode.validateProjectPath(trimmedPath, additionalOptions.debug);
-					
-					if (!validation.valid) {
-						throw new NodeOperationError(this.getNode(), `Project Path Error: ${validation.error}`, {
-							itemIndex,
-							description: 'Please check that the project directory exists and has appropriate permissions.',
-						});
-					}
-					
-					// Show warning if write permissions are missing
-					if (validation.warning && additionalOptions.debug) {
-						console.warn(`[ClaudeCode] Warning: ${validation.warning}`);
-					}
-					
-					queryOptions.cwd = path.resolve(trimmedPath);
-					if (additionalOptions.debug) {
-						console.log(`[ClaudeCode] Working directory set to: ${queryOptions.cwd}`);
-					}
+				queryOptions.options.cwd = getWorkingDirectory(
+					this.getNode(),
+					projectPath ?? '',
+					itemIndex,
+					debugLog,
+				);
+				if (queryOptions.options.cwd) {
+					debugLog?.(`Working directory set to: ${queryOptions.options.cwd}`);
 				}
 
-				// Set allowed tools if any are specified
-				if (allowedTools.length > 0) {
-					queryOptions.options.allowedTools = allowedTools;
-					if (additionalOptions.debug) {
-						console.log(`[ClaudeCode] Allowed tools: ${allowedTools.join(', ')}`);
+				// Add the context files to the system prompt, read from the project before any workspace copy
+				if (contextOptions.files?.trim()) {
+					const projectContext = await loadProjectContext(
+						queryOptions.options.cwd ?? process.cwd(),
+						contextOptions,
+					);
+					if (projectContext.prompt) {
+						systemPrompt = systemPrompt
+							? `${systemPrompt}\n\n${projectContext.prompt}`
+							: projectContext.prompt;
 					}
+					debugLog?.('Context files', {
+						files: projectContext.files,
+						omitted: projectContext.omitted,
+					});
 				}
-
-				// Add continue flag if needed
-				if (operation === 'continue' || operation === 'approve') {
-					queryOptions.options.continue = true;
+				const operationSystemPrompt = [systemPrompt, planningInstructions]
+					.filter((text) => text !== '')
+					.join('\n\n');
+				if (operationSystemPrompt) {
+					queryOptions.options.appendSystemPrompt = operationSystemPrompt;
 				}
 
+				// Records the phase and the options it runs with for the debug trace
+				const traceSecrets: string[] = [];
+				const tracePhase = (phase: string) => {
+					if (trace) {
+						trace.phase(phase);
+						trace.queryOptions = redactQueryOptions(queryOptions, traceSecrets);
+					}
+				};
 
-				// Execute query
-				const messages: SDKMessage[] = [];
-				const startTime = Date.now();
-				
-				// Store original working directory for restoration
-				const originalCwd = process.cwd();
-				let workingDirectoryChanged = false;
-
-				try {
-					// Change working directory if project path is specified
-					if (queryOptions.cwd && queryOptions.cwd !== originalCwd) {
-						if (additionalOptions.debug) {
-							console.log(`[ClaudeCode] Changing working directory from ${originalCwd} to ${queryOptions.cwd}`);
-						}
-						process.chdir(queryOptions.cwd);
-						workingDirectoryChanged = true;
-						
-						if (additionalOptions.debug) {
-							console.log(`[ClaudeCode] Working directory successfully changed to: ${process.cwd()}`);
-						}
+				// Add MCP servers defined in the node
+				let mcpSecrets: Record<string, string> = {};
+				if (mcpServerParameters.length > 0) {
+					if (this.getNode().credentials?.claudeCodeMcpSecretsApi) {
+						mcpSecrets = getMcpSecrets(
+							await this.getCredentials('claudeCodeMcpSecretsApi', itemIndex),
+						);
+						traceSecrets.push(...Object.values(mcpSecrets));
 					}
+					queryOptions.options.mcpServers = buildMcpServers(
+						this.getNode(),
+						mcpServerParameters,
+						mcpSecrets,
+					);
+					debugLog?.(`MCP servers: ${Object.keys(queryOptions.options.mcpServers).join(', ')}`);
+				}
 
-					for await (const message of query(queryOptions)) {
-						messages.push(message);
+				// Apply tool rules, validating their pattern syntax first
+				const { allow: allowRules, deny: denyRules } = buildToolRules(
+					this.getNode(),
+					toolRules,
+					itemIndex,
+				);
+				allowedTools.push(...allowRules);
+				// Planning is read-only no matter which tools are allowed
+				const disallowedTools =
+					operation === 'plan' ? [...denyRules, ...PLAN_MODE_BLOCKED_TOOLS] : denyRules;
+				if (disallowedTools.length > 0) {
+					queryOptions.options.disallowedTools = disallowedTools;
+					debugLog?.(`Disallowed tools: ${disallowedTools.join(', ')}`);
+				}
 
-						if (additionalOptions.debug) {
-							console.log(`[ClaudeCode] Received message type: ${message.type}`);
-						}
+				// Set allowed tools if any are specified
+				const queryAllowedTools =
+					operation === 'plan' ? getPlanModeAllowedTools(allowedTools) : allowedTools;
+				if (queryAllowedTools.length > 0) {
+					queryOptions.options.allowedTools = queryAllowedTools;
+					debugLog?.(`Allowed tools: ${queryAllowedTools.join(', ')}`);
+				}
 
-						// Track progress
-						if (message.type === 'assistant' && message.message?.content) {
-							const content = message.message.content[0];
-							if (additionalOptions.debug && content.type === 'text') {
-								console.log(`[ClaudeCode] Assistant: ${content.text.substring(0, 100)}...`);
-							} else if (additionalOptions.debug && content.type === 'tool_use') {
-								console.log(`[ClaudeCode] Tool use: ${content.name}`);
-							}
-						}
+				// Resume the exact session for continue/approve instead of the most recent one
+				if (
+					operation === 'continue' ||
+					operation === 'approve' ||
+					(operation === 'conversation' && sessionId)
+				) {
+					checkSessionId(this.getNode(), sessionId, itemIndex);
+					queryOptions.options.resume = sessionId;
+					debugLog?.(`Resuming session: ${sessionId}`);
+				}
+
+				// Authenticate the CLI subprocess with the selected credential, if any
+				let credentialEnvironment: Record<string, string | undefined> = {};
+				if (this.getNode().credentials?.claudeCodeApi) {
+					const credentials = await this.getCredentials('claudeCodeApi', itemIndex);
+					credentialEnvironment = getCredentialEnvironment(credentials);
+					for (const [name, value] of Object.entries(credentialEnvironment)) {
+						if (value && /KEY|TOKEN|SECRET/.test(name)) traceSecrets.push(value);
 					}
+					debugLog?.(`Using credential authentication: ${credentials.authType}`);
+				}
 
-					clearTimeout(timeoutId);
+				// The node's subagents and slash commands are written into the workspace, never the project
+				const subagents = this.getNodeParameter(
+					'subagents.agents',
+					itemIndex,
+					[],
+				) as SubagentParameters[];
+				const slashCommands = this.getNodeParameter(
+					'slashCommands.commands',
+					itemIndex,
+					[],
+				) as SlashCommandParameters[];
+				checkWorkspaceOptions(
+					this.getNode(),
+					workspaceMode,
+					{
+						operation,
+						resume: queryOptions.options.resume,
+						autoApprove: additionalOptions.autoApprove,
+						git: gitOptions,
+						hasAgentFiles: subagents.length > 0 || slashCommands.length > 0,
+					},
+					itemIndex,
+				);
+
+				const budgetLimits = getItemBudgetLimits(
+					this.getNode(),
+					{ maxCostUsd: additionalOptions.maxCostUsd, maxTokens: additionalOptions.maxTokens },
+					executionBudgetUsd,
+					getExecutionCostUsd(),
+					itemIndex,
+				);
+				const usageMeter = new UsageMeter();
+				let countedCostUsd = 0;
+				runningCosts.set(itemIndex, () => usageMeter.usage.costUsd - countedCostUsd);
+				// Moves the cost of this item so far into the execution total
+				const countCost = () => {
+					executionCostUsd += usageMeter.usage.costUsd - countedCostUsd;
+					countedCostUsd = usageMeter.usage.costUsd;
+				};
 
-					const duration = Date.now() - startTime;
-					if (additionalOptions.debug) {
-						console.log(
-							`[ClaudeCode] Execution completed in ${duration}ms with ${messages.length} messages`,
+				// Set up the workspace and record the starting point in git once everything else is valid
+				if (workspaceMode !== 'inPlace') {
+					if (!queryOptions.options.cwd) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Project Path is required for isolated workspace modes',
+							{
+								itemIndex,
+								description:
+									'Temporary Copy and Git Worktree create their workspace from the Project Path.',
+							},
 						);
 					}
+					workspace = await createWorkspace(
+						this.getNode(),
+						workspaceMode,
+						queryOptions.options.cwd,
+						itemIndex,
+					);
+					queryOptions.options.cwd = workspace.path;
+					debugLog?.(`Isolated workspace: ${workspace.path}`);
+				}
 
-					// Format output based on selected format
-					if (outputFormat === 'text') {
-						// Find the result message
-						const resultMessage = messages.find((m) => m.type === 'result') as any;
-						returnData.push({
-							json: {
-								result: resultMessage?.result || resultMessage?.error || '',
-								success: resultMessage?.subtype === 'success',
-								duration_ms: resultMessage?.duration_ms,
-								total_cost_usd: resultMessage?.total_cost_usd,
-							},
-							pairedItem: itemIndex,
-						});
-					} else if (outputFormat === 'messages') {
-						// Return raw messages
-						returnData.push({
-							json: {
-								messages,
-								messageCount: messages.length,
-							},
-							pairedItem: itemIndex,
-						});
-					} else if (outputFormat === 'structured') {
-						// Parse into structured format
-						const userMessages = messages.filter((m) => m.type === 'user');
-						const assistantMessages = messages.filter((m) => m.type === 'assistant');
-						const toolUses = messages.filter(
-							(m) =>
-								m.type === 'assistant' && (m as any).message?.content?.[0]?.type === 'tool_use',
-						);
-						const systemInit = messages.find(
-							(m) => m.type === 'system' && (m as any).subtype === 'init',
-						) as any;
-						const resultMessage = messages.find((m) => m.type === 'result') as any;
-
-						returnData.push({
-							json: {
-								messages,
-								summary: {
-									userMessageCount: userMessages.length,
-									assistantMessageCount: assistantMessages.length,
-									toolUseCount: toolUses.length,
-									hasResult: !!resultMessage,
-									toolsAvailable: systemInit?.tools || [],
-								},
-								result: resultMessage?.result || resultMessage?.error || null,
-								metrics: resultMessage
-									? {
-											duration_ms: resultMessage.duration_ms,
-											num_turns: resultMessage.num_turns,
-											total_cost_usd: resultMessage.total_cost_usd,
-											usage: resultMessage.usage,
-										}
-									: null,
-								success: resultMessage?.subtype === 'success',
-							},
-							pairedItem: itemIndex,
+				let gitRun: GitRun | undefined;
+				if (Object.keys(gitOptions).length > 0) {
+					gitRun = await startGitRun(
+						this.getNode(),
+						queryOptions.options.cwd ?? process.cwd(),
+						gitOptions,
+						prompt,
+						itemIndex,
+					);
+					debugLog?.(`Git branch ${gitRun.branch} at ${gitRun.startHead}`);
+				}
+
+				// Write binary attachments where Claude can read them and list them in the prompt
+				const runCwd = queryOptions.options.cwd ?? process.cwd();
+				const attachmentProperties = getAttachmentProperties(attachmentOptions);
+				if (attachmentProperties.length > 0 && !conversation) {
+					const files: AttachmentFile[] = [];
+					for (const property of attachmentProperties) {
+						const binaryData = this.helpers.assertBinaryData(itemIndex, property);
+						files.push({
+							property,
+							fileName: binaryData.fileName,
+							mimeType: binaryData.mimeType,
+							data: await this.helpers.getBinaryDataBuffer(itemIndex, property),
 						});
 					}
-				} catch (queryError) {
-					clearTimeout(timeoutId);
-					throw queryError;
-				} finally {
-					// Always restore the original working directory
-					if (workingDirectoryChanged) {
-						if (additionalOptions.debug) {
-							console.log(`[ClaudeCode] Restoring working directory to: ${originalCwd}`);
+					const attached = attachFiles(runCwd, operationPrompt, attachmentOptions, files);
+					attachmentDirectory = attached.directory;
+					queryOptions.prompt = attached.prompt;
+					debugLog?.(
+						`Attached ${files.length} file(s) in ${attachmentDirectory}, ${attached.imageCount} as images`,
+					);
+				}
+				let agentFiles: AgentFile[] | undefined;
+				if (subagents.length > 0 || slashCommands.length > 0) {
+					agentFiles = writeAgentFiles(this.getNode(), runCwd, subagents, slashCommands, itemIndex);
+					debugLog?.(
+						`Subagents and slash commands: ${agentFiles.map((file) => file.path).join(', ')}`,
+					);
+				}
+				const outputSnapshot = attachmentOptions.outputFiles?.trim()
+					? await getFileSnapshot(runCwd, attachmentOptions.outputFiles)
+					: undefined;
+
+				// Capture CLI stderr to explain failures such as unknown sessions
+				let stderrOutput = '';
+				queryOptions.options.stderr = (data: string) => {
+					stderrOutput += data;
+				};
+
+				// Execute query, emitting progress events and pausing when a tool call needs approval
+				const run: RunState = {
+					itemIndex,
+					operation,
+					outputFormat,
+					jsonSchema,
+					jsonMaxAttempts: this.getNodeParameter('jsonMaxAttempts', itemIndex, 3) as number,
+					timeout,
+					maxTurns,
+					cwd: runCwd,
+					// Turns already sent in a conversation cannot be replayed, so conversations are not retried
+					retryOptions: {
+						maxRetries: conversation ? 0 : (additionalOptions.maxRetries ?? 2),
+						initialDelay: additionalOptions.retryDelay ?? 5,
+					},
+					budgetLimits,
+					usage: usageMeter.usage,
+					messages: [],
+					autoContinue: additionalOptions.autoContinue ?? 0,
+					autoContinueMaxTurns: additionalOptions.autoContinueMaxTurns,
+					autoContinuePrompt: additionalOptions.autoContinuePrompt,
+					continuations: 0,
+					totalTurns: 0,
+					verification: verificationOptions,
+					verificationRounds: [],
+					git: gitRun,
+					workspace,
+					workspaceOutput,
+					attachmentDirectory,
+					agentFiles,
+					outputFiles: outputSnapshot && {
+						globs: attachmentOptions.outputFiles as string,
+						snapshot: outputSnapshot,
+					},
+					debug: !!additionalOptions.debug,
+				};
+				const context: RunContext = {
+					node: this.getNode(),
+					helpers: this.helpers,
+					queryOptions,
+					environment: credentialEnvironment,
+					stopSignal: stopController.signal,
+					log: debugLog,
+					trace,
+					tracePhase,
+					conversationTurns: conversation && conversationTurns,
+					checkBudget: (message) => {
+						usageMeter.add(message);
+						context.exceededLimit = usageMeter.getExceededLimit(budgetLimits);
+						// Items running in parallel share the execution budget
+						if (
+							!context.exceededLimit &&
+							executionBudgetUsd &&
+							getExecutionCostUsd() >= executionBudgetUsd
+						) {
+							context.exceededLimit = `execution budget of $${executionBudgetUsd} used up`;
+						}
+						return !context.exceededLimit;
+					},
+					countCost,
+					onMessage: (message, received) => {
+						if (!context.checkBudget(message)) {
+							return false;
+						}
+						// Send the next turn once this one is answered, each turn with its own timeout
+						if (conversation && message.type === 'result') {
+							conversation.onReply();
+							timeoutId.refresh();
 						}
-						try {
-							process.chdir(originalCwd);
-							if (additionalOptions.debug) {
-								console.log(`[ClaudeCode] Working directory successfully restored to: ${process.cwd()}`);
+						if (emitEvents) {
+							for (const event of getProgressEvents(message)) {
+								const eventJson = {
+									itemIndex,
+									sessionId: message.session_id,
+									timestamp: new Date().toISOString(),
+									...event,
+								};
+								eventData.push({ json: eventJson, pairedItem: itemIndex });
+								this.sendMessageToUI(eventJson);
 							}
-						} catch (chdirError) {
-							console.error(`[ClaudeCode] ERROR: Failed to restore working directory to ${originalCwd}:`, chdirError);
-							// This is a critical error, but we don't want to throw here as it might mask the original error
 						}
-					}
+						// Tools blocked while planning are never sent for approval
+						if (
+							approvalWebhookUrl &&
+							queryOptions.options.permissionMode !== 'plan' &&
+							!conversation
+						) {
+							context.permissionRequest = findPermissionRequest(message, received);
+							return !context.permissionRequest;
+						}
+						return true;
+					},
+				};
+				const onRetry = (attempt: number, type: ErrorType, delayMs: number) => {
+					debugLog?.(`Retry ${attempt} after ${type} error in ${delayMs}ms`);
+				};
+				let messages: SDKMessage[];
+				tracePhase('query');
+				try {
+					messages = await runQueryWithRetry(
+						queryOptions,
+						credentialEnvironment,
+						run.retryOptions,
+						debugLog,
+						context.onMessage,
+						onRetry,
+					);
+				} catch (queryError) {
+					throw getQueryError(this.getNode(), queryError, stderrOutput, sessionId, itemIndex);
+				} finally {
+					clearTimeout(timeoutId);
+					conversation?.close();
+					countCost();
+				}
+				run.messages.push(...messages);
+				if (context.exceededLimit) {
+					throw ClaudeCode.getBudgetError(context, run, messages);
 				}
+				run.totalTurns = ClaudeCode.getNumTurns(messages);
+				messages = await ClaudeCode.continueRun(context, run, messages);
+
+				// Run the plan right away if it passes the auto-execute rule checked here
+				if (operation === 'plan') {
+					const planMarkdown = findPlan(messages) ?? getResult(messages);
+					run.plan = planMarkdown ? parsePlan(planMarkdown, messages) : undefined;
+				}
+				if (operation === 'plan' && additionalOptions.autoApprove) {
+					const autoExecuteTools = additionalOptions.autoExecuteTools ?? [];
+					const executionTools = autoExecuteTools.length > 0 ? autoExecuteTools : allowedTools;
+					messages = await ClaudeCode.autoExecutePlan(
+						context,
+						run,
+						messages,
+						{
+							maxSteps: additionalOptions.autoExecuteMaxSteps ?? 5,
+							allowedPaths: additionalOptions.autoExecutePaths,
+							allowRisks: additionalOptions.autoExecuteRisky,
+						},
+						{
+							permissionMode:
+								autoExecuteTools.length > 0 ||
+								additionalOptions.requirePermissions ||
+								approvalWebhookUrl
+									? 'default'
+									: 'bypassPermissions',
+							appendSystemPrompt: systemPrompt || undefined,
+							allowedTools: executionTools.length > 0 ? executionTools : undefined,
+							disallowedTools: denyRules.length > 0 ? denyRules : undefined,
+						},
+					);
+				}
+
+				messages = await ClaudeCode.verifyRun(context, run, messages);
+
+				const resultSessionId = getSessionId(messages);
+				if (context.permissionRequest && resultSessionId) {
+					debugLog?.(`Waiting for approval of tool: ${context.permissionRequest.toolName}`);
+					const {
+						abortController: _abortController,
+						stderr: _stderr,
+						mcpServers: _mcpServers,
+						...options
+					} = queryOptions.options;
+					pendingApprovals.push({
+						sessionId: resultSessionId,
+						request: context.permissionRequest,
+						options,
+						run: { ...run, usage: usageMeter.usage, debugTrace: trace?.toJSON() },
+					});
+					keepWorkspace = true;
+					return;
+				}
+				returnData.push(...(await ClaudeCode.getRunOutput(context, run, messages)));
 			} catch (error) {
 				const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
 				const isTimeout = error instanceof Error && error.name === 'AbortError';
+				const errorType =
+					error instanceof NodeOperationError && error.type
+						? error.type
+						: isTimeout
+							? 'timeout'
+							: classifyError(error);
 
 				if (this.continueOnFail()) {
 					returnData.push({
 						json: {
 							error: errorMessage,
-							errorType: isTimeout ? 'timeout' : 'execution_error',
+							errorType,
 							errorDetails: error instanceof Error ? error.stack : undefined,
 							itemIndex,
+							...(trace && { debugTrace: trace.toJSON() }),
 						},
 						pairedItem: itemIndex,
 					});
-					continue;
+					return;
+				}
+
+				// Errors with a known type already carry a specific message
+				if (error instanceof NodeOperationError && error.type) {
+					throw error;
 				}
 
 				// Provide more specific error messages
@@ -708,9 +2592,315 @@ Planning Guidelines:
 					itemIndex,
 					description: errorMessage,
 				});
+			} finally {
+				stopController.signal.removeEventListener('abort', stopItem);
+				// Sessions waiting for approval keep their workspace until webhook() resumes them
+				if (workspace && !keepWorkspace) {
+					await removeWorkspace(workspace);
+				}
+				if (attachmentDirectory && !keepWorkspace) {
+					removeAttachments(attachmentDirectory);
+				}
+				runningCosts.delete(itemIndex);
+			}
+		};
+
+		// A conversation sends all items as turns of one session, set up from the first item
+		const itemCount =
+			this.getNodeParameter('operation', 0) === 'conversation'
+				? Math.min(items.length, 1)
+				: items.length;
+		let nextItem = 0;
+		let failure: { error: unknown } | undefined;
+		const runItems = async () => {
+			while (!failure && nextItem < itemCount) {
+				try {
+					await runItem(nextItem++);
+				} catch (error) {
+					failure ??= { error };
+					stopController.abort();
+				}
+			}
+		};
+		await Promise.all(Array.from({ length: Math.min(concurrency, itemCount) }, runItems));
+		if (failure) {
+			throw failure.error;
+		}
+		const returnData = itemOutputs.flat();
+
+		if (pendingApprovals.length > 0) {
+			pendingApprovals.sort((a, b) => a.run.itemIndex - b.run.itemIndex);
+			const firstItemIndex = pendingApprovals[0].run.itemIndex;
+			const approvalOptions = this.getNodeParameter(
+				'additionalOptions',
+				firstItemIndex,
+			) as IDataObject;
+			const approvalTimeout = (approvalOptions.approvalTimeout as number) || 0;
+			const waitTill =
+				approvalTimeout > 0 ? new Date(Date.now() + approvalTimeout * 60000) : WAIT_INDEFINITELY;
+			const resumeUrl = this.evaluateExpression(
+				'{{ $execution.resumeUrl }}',
+				firstItemIndex,
+			) as string;
+
+			saveApprovalState(staticData, this.getExecutionId(), {
+				expiresAt: approvalTimeout > 0 ? waitTill.getTime() : null,
+				executionBudgetUsd: executionBudgetUsd || undefined,
+				executionCostUsd,
+				completed: returnData.map((data) => ({
+					itemIndex: data.pairedItem as number,
+					json: data.json,
+					binary: data.binary,
+				})),
+				pending: pendingApprovals,
+			});
+
+			const pendingToolCalls = pendingApprovals.map(({ run, sessionId, request }) => ({
+				itemIndex: run.itemIndex,
+				sessionId,
+				...request,
+			}));
+			try {
+				await this.helpers.httpRequest({
+					method: 'POST',
+					url: (approvalOptions.approvalWebhookUrl as string).trim(),
+					body: {
+						executionId: this.getExecutionId(),
+						workflowId: this.getWorkflow().id,
+						resumeUrl,
+						pendingToolCalls,
+					},
+					json: true,
+				});
+			} catch (error) {
+				// Nobody will ever decide, so the waiting runs are not kept
+				await discardApprovalState(staticData, this.getExecutionId());
+				throw error;
+			}
+
+			await this.putExecutionToWait(waitTill);
+
+			// Only emitted if the approval times out; a decision replaces it in webhook()
+			for (const toolCall of pendingToolCalls) {
+				returnData.push({
+					json: {
+						success: false,
+						sessionId: toolCall.sessionId,
+						permission: { ...toolCall, status: 'pending' },
+					},
+					pairedItem: toolCall.itemIndex,
+				});
+			}
+			returnData.sort((a, b) => (a.pairedItem as number) - (b.pairedItem as number));
+		}
+
+		return emitEvents ? [returnData, eventData] : [returnData];
+	}
+
+	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		const executionId = this.getExecutionId();
+		const emitEvents = this.getNodeParameter('additionalOptions.emitEvents', false) as boolean;
+		const staticData = this.getWorkflowStaticData('node');
+		await removeExpiredApprovals(staticData);
+		const state = getApprovalState(staticData, executionId);
+		if (!state) {
+			// Ends the execution instead of leaving it waiting for a decision nobody can apply
+			const error = 'No tool approval is pending';
+			return {
+				webhookResponse: { received: false, message: error },
+				workflowData: [
+					[{ json: { error, errorType: 'approval_not_found' } }],
+					...(emitEvents ? [[]] : []),
+				],
+			};
+		}
+
+		let decisions: Map<string, ApprovalDecision>;
+		try {
+			decisions = getApprovalDecisions(
+				state.pending,
+				this.getBodyData(),
+				this.getQueryData() as IDataObject,
+			);
+		} catch (error) {
+			// Without workflow data the execution keeps waiting for a request it can apply
+			this.getResponseObject()
+				.status(400)
+				.json({ received: false, message: (error as Error).message });
+			return { noWebhookResponse: true };
+		}
+		removeApprovalState(staticData, executionId);
+
+		// Answer the approver right away; resumed sessions can run for minutes
+		this.getResponseObject()
+			.status(200)
+			.json({
+				received: true,
+				decisions: state.pending.map(({ request }) => ({
+					toolUseId: request.toolUseId,
+					approved: decisions.get(request.toolUseId)?.approved ?? false,
+				})),
+			});
+
+		const traceSecrets: string[] = [];
+		let mcpServers: Record<string, McpServerConfig> | undefined;
+		let mcpSecrets: Record<string, string> = {};
+		const mcpServerParameters = this.getNodeParameter(
+			'mcpServers.servers',
+			[],
+		) as McpServerParameters[];
+		if (mcpServerParameters.length > 0) {
+			if (this.getNode().credentials?.claudeCodeMcpSecretsApi) {
+				mcpSecrets = getMcpSecrets(await this.getCredentials('claudeCodeMcpSecretsApi'));
+				traceSecrets.push(...Object.values(mcpSecrets));
+			}
+			mcpServers = buildMcpServers(this.getNode(), mcpServerParameters, mcpSecrets);
+		}
+		let credentialEnvironment: Record<string, string | undefined> = {};
+		if (this.getNode().credentials?.claudeCodeApi) {
+			credentialEnvironment = getCredentialEnvironment(await this.getCredentials('claudeCodeApi'));
+			for (const [name, value] of Object.entries(credentialEnvironment)) {
+				if (value && /KEY|TOKEN|SECRET/.test(name)) traceSecrets.push(value);
+			}
+		}
+
+		let executionCostUsd = state.executionCostUsd;
+		const results: ApprovalState['completed'] = [...state.completed];
+		const eventData: INodeExecutionData[] = [];
+		for (const { sessionId, request, options, run } of state.pending) {
+			const { itemIndex } = run;
+			const rule = getPermissionRule(request);
+			const { approved, reason } = decisions.get(request.toolUseId) ?? {
+				approved: false,
+				reason: 'No decision was made for this tool call',
+			};
+			const permission = { ...request, status: approved ? 'approved' : 'denied', reason };
+			const trace = run.debugTrace ? DebugTrace.restore(run.debugTrace) : undefined;
+			// The run goes through the same steps as in execute(), with the usage it had so far
+			const usageMeter = new UsageMeter(run.usage);
+			let countedCostUsd = run.usage.costUsd;
+			const context: RunContext = {
+				node: this.getNode(),
+				helpers: this.helpers,
+				queryOptions: {
+					prompt: '',
+					options: {
+						...options,
+						abortController: new AbortController(),
+						...(mcpServers && { mcpServers }),
+					},
+				},
+				environment: credentialEnvironment,
+				stopSignal: new AbortController().signal,
+				log: run.debug
+					? createDebugLog(this.logger, {
+							executionId,
+							nodeName: this.getNode().name,
+							itemIndex,
+						})
+					: undefined,
+				trace,
+				tracePhase: (phase) => {
+					if (trace) {
+						trace.phase(phase);
+						trace.queryOptions = redactQueryOptions(context.queryOptions, traceSecrets);
+					}
+				},
+				checkBudget: (message) => {
+					usageMeter.add(message);
+					context.exceededLimit = usageMeter.getExceededLimit(run.budgetLimits);
+					const { executionBudgetUsd } = state;
+					if (
+						!context.exceededLimit &&
+						executionBudgetUsd &&
+						executionCostUsd + usageMeter.usage.costUsd - countedCostUsd >= executionBudgetUsd
+					) {
+						context.exceededLimit = `execution budget of $${executionBudgetUsd} used up`;
+					}
+					return !context.exceededLimit;
+				},
+				countCost: () => {
+					executionCostUsd += usageMeter.usage.costUsd - countedCostUsd;
+					countedCostUsd = usageMeter.usage.costUsd;
+				},
+				// Further tool calls that are not allowed are denied, one approval round is handled per execution
+				onMessage: (message) => {
+					if (!context.checkBudget(message)) {
+						return false;
+					}
+					if (emitEvents) {
+						for (const event of getProgressEvents(message)) {
+							eventData.push({
+								json: {
+									itemIndex,
+									sessionId: message.session_id,
+									timestamp: new Date().toISOString(),
+									...event,
+								},
+								pairedItem: itemIndex,
+							});
+						}
+					}
+					return true;
+				},
+			};
+
+			try {
+				let messages = await ClaudeCode.queryRun(
+					context,
+					run,
+					'approval',
+					approved
+						? `Permission granted: you may now use ${rule}. Continue with the task.`
+						: `Permission to use ${request.toolName} was denied${reason ? `: ${reason}` : ''}. Continue the task without it.`,
+					{
+						resume: sessionId,
+						allowedTools: approved ? [...(options.allowedTools ?? []), rule] : options.allowedTools,
+					},
+				);
+				run.totalTurns += ClaudeCode.getNumTurns(messages);
+				messages = await ClaudeCode.continueRun(context, run, messages);
+				messages = await ClaudeCode.verifyRun(context, run, messages);
+				for (const output of await ClaudeCode.getRunOutput(context, run, messages)) {
+					results.push({ itemIndex, json: { ...output.json, permission }, binary: output.binary });
+				}
+			} catch (error) {
+				const isTimeout = error instanceof Error && error.name === 'AbortError';
+				results.push({
+					itemIndex,
+					json: {
+						error: error instanceof Error ? error.message : 'An unknown error occurred',
+						errorType:
+							error instanceof NodeOperationError && error.type
+								? error.type
+								: isTimeout
+									? 'timeout'
+									: classifyError(error),
+						errorDetails: error instanceof Error ? error.stack : undefined,
+						itemIndex,
+						permission,
+						...(trace && { debugTrace: trace.toJSON() }),
+					},
+				});
+			} finally {
+				if (run.workspace) {
+					await removeWorkspace(run.workspace);
+				}
+				if (run.attachmentDirectory) {
+					removeAttachments(run.attachmentDirectory);
+				}
 			}
 		}
 
-		return [returnData];
+		results.sort((a, b) => a.itemIndex - b.itemIndex);
+		const resultData = results.map(({ itemIndex, json, binary }) => ({
+			json,
+			...(binary && { binary }),
+			pairedItem: itemIndex,
+		}));
+		return {
+			noWebhookResponse: true,
+			workflowData: emitEvents ? [resultData, eventData] : [resultData],
+		};
 	}
 }
@@ -0,0 +1,232 @@
+import type {
+	INodeType,
+	INodeTypeDescription,
+	ISupplyDataFunctions,
+	SupplyData,
+} from 'n8n-workflow';
+import { NodeConnectionType, NodeOperationError } from 'n8n-workflow';
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import { DynamicTool } from '@langchain/core/tools';
+import * as fs from 'fs';
+import * as path from 'path';
+import { UsageMeter } from './utils/budget';
+import { getCredentialEnvironment, getResult, runQuery, type QueryOptions } from './utils/query';
+import { BUILT_IN_TOOL_OPTIONS } from './utils/tools';
+
+export class ClaudeCodeTool implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Claude Code Tool',
+		name: 'claudeCodeTool',
+		icon: 'file:claudecode.svg',
+		group: ['transform'],
+		version: 1,
+		description: 'Lets an AI Agent hand coding tasks to Claude Code',
+		defaults: {
+			name: 'Claude Code Tool',
+		},
+		codex: {
+			categories: ['AI'],
+			subcategories: {
+				AI: ['Tools'],
+			},
+		},
+		credentials: [
+			{
+				name: 'claudeCodeApi',
+				required: false,
+			},
+		],
+		inputs: [],
+		outputs: [NodeConnectionType.AiTool],
+		outputNames: ['Tool'],
+		properties: [
+			{
+				displayName: 'Description',
+				name: 'toolDescription',
+				type: 'string',
+				typeOptions: {
+					rows: 3,
+				},
+				default:
+					'Hands a coding task to Claude Code, which can read, edit and run the code in the project. Input is the task in plain language; the answer describes what Claude Code found or changed.',
+				description: 'Tells the agent what this tool does and when to use it',
+			},
+			{
+				displayName: 'Project Path',
+				name: 'projectPath',
+				type: 'string',
+				default: '',
+				placeholder: '/home/user/projects/my-app',
+				description:
+					'The directory Claude Code works in. If empty, uses the current working directory.',
+			},
+			{
+				displayName: 'Model',
+				name: 'model',
+				type: 'options',
+				options: [
+					{
+						name: 'Sonnet',
+						value: 'sonnet',
+						description: 'Fast and efficient model for most tasks',
+					},
+					{
+						name: 'Opus',
+						value: 'opus',
+						description: 'Most capable model for complex tasks',
+					},
+				],
+				default: 'sonnet',
+				description: 'Claude model to use',
+			},
+			{
+				displayName: 'Max Turns',
+				name: 'maxTurns',
+				type: 'number',
+				default: 10,
+				description: 'Maximum number of conversation turns allowed for each task',
+			},
+			{
+				displayName: 'Timeout',
+				name: 'timeout',
+				type: 'number',
+				default: 300,
+				description: 'Maximum time for each task in seconds',
+			},
+			{
+				displayName: 'Allowed Tools',
+				name: 'allowedTools',
+				type: 'multiOptions',
+				options: BUILT_IN_TOOL_OPTIONS,
+				default: ['Glob', 'Grep', 'LS', 'Read'],
+				description:
+					'Select which built-in tools Claude Code is allowed to use. Other tools are denied; leave empty to allow every tool.',
+			},
+			{
+				displayName: 'Additional Options',
+				name: 'additionalOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Max Cost (USD)',
+						name: 'maxCostUsd',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 2,
+						},
+						description: 'Stop a task once it has cost this much. Use 0 for no limit.',
+					},
+					{
+						displayName: 'Require Permissions',
+						name: 'requirePermissions',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether tools that need permission are denied even when Allowed Tools is empty. Otherwise an empty list lets Claude Code use any tool.',
+					},
+				],
+			},
+		],
+	};
+
+	async supplyData(this: ISupplyDataFunctions, itemIndex: number): Promise<SupplyData> {
+		const node = this.getNode();
+		const toolDescription = this.getNodeParameter('toolDescription', itemIndex) as string;
+		const projectPath = (this.getNodeParameter('projectPath', itemIndex, '') as string).trim();
+		const model = this.getNodeParameter('model', itemIndex) as string;
+		const maxTurns = this.getNodeParameter('maxTurns', itemIndex) as number;
+		const timeout = this.getNodeParameter('timeout', itemIndex) as number;
+		const allowedTools = this.getNodeParameter('allowedTools', itemIndex, []) as string[];
+		const additionalOptions = this.getNodeParameter('additionalOptions', itemIndex, {}) as {
+			maxCostUsd?: number;
+			requirePermissions?: boolean;
+		};
+
+		const cwd = projectPath ? path.resolve(projectPath) : undefined;
+		if (cwd && (!fs.existsSync(cwd) || !fs.statSync(cwd).isDirectory())) {
+			throw new NodeOperationError(node, `Project directory does not exist: ${cwd}`, {
+				itemIndex,
+			});
+		}
+
+		let credentialEnvironment: Record<string, string | undefined> = {};
+		if (node.credentials?.claudeCodeApi) {
+			credentialEnvironment = getCredentialEnvironment(
+				await this.getCredentials('claudeCodeApi', itemIndex),
+			);
+		}
+
+		const runTask = async (task: string): Promise<string> => {
+			const abortController = new AbortController();
+			const timeoutId = setTimeout(() => abortController.abort(), timeout * 1000);
+			const usageMeter = new UsageMeter();
+			let exceededLimit: string | undefined;
+			const queryOptions: QueryOptions = {
+				prompt: task,
+				options: {
+					abortController,
+					cwd,
+					maxTurns,
+					model,
+					// Allowed tools only limit Claude Code outside of bypassPermissions
+					permissionMode:
+						allowedTools.length > 0 || additionalOptions.requirePermissions
+							? 'default'
+							: 'bypassPermissions',
+					...(allowedTools.length > 0 && { allowedTools }),
+				},
+			};
+
+			let messages: SDKMessage[];
+			try {
+				messages = await runQuery(queryOptions, credentialEnvironment, undefined, (message) => {
+					usageMeter.add(message);
+					exceededLimit = usageMeter.getExceededLimit({
+						maxCostUsd: additionalOptions.maxCostUsd,
+					});
+					return !exceededLimit;
+				});
+			} catch (error) {
+				if (error instanceof Error && error.name === 'AbortError') {
+					return `Error: Claude Code did not finish the task within ${timeout} seconds`;
+				}
+				throw error;
+			} finally {
+				clearTimeout(timeoutId);
+			}
+
+			if (exceededLimit) {
+				return `Error: Claude Code stopped before finishing the task: ${exceededLimit}`;
+			}
+			const result = getResult(messages);
+			if (result === null) {
+				const resultMessage = messages.find((m) => m.type === 'result');
+				return `Error: Claude Code did not finish the task (${resultMessage?.subtype ?? 'no result'})`;
+			}
+			return result;
+		};
+
+		const tool = new DynamicTool({
+			name: node.name.replace(/[^a-zA-Z0-9_-]/g, '_'),
+			description: toolDescription,
+			func: async (task: string) => {
+				const { index } = this.addInputData(NodeConnectionType.AiTool, [[{ json: { task } }]]);
+				try {
+					const response = await runTask(task);
+					this.addOutputData(NodeConnectionType.AiTool, index, [[{ json: { response } }]]);
+					return response;
+				} catch (error) {
+					const operationError = new NodeOperationError(node, error as Error, { itemIndex });
+					this.addOutputData(NodeConnectionType.AiTool, index, operationError);
+					return `Error: ${operationError.message}`;
+				}
+			},
+		});
+
+		return { response: tool };
+	}
+}
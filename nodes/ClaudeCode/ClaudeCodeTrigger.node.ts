@@ -0,0 +1,360 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { NodeConnectionType, NodeOperationError } from 'n8n-workflow';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getFileSnapshot } from './utils/files';
+import { getChanges, getCommitChanges, runGit } from './utils/git';
+
+// Commits emitted by one poll at most, e.g. after a large pull
+const MAX_COMMITS_PER_POLL = 50;
+// Larger files are not scanned for markers
+const MAX_MARKER_FILE_SIZE = 1024 * 1024;
+
+// Only modification times and hashes are kept, so the static data stays small and holds no file content
+interface TriggerState {
+	head?: string;
+	files?: Record<string, string>;
+	markerHashes?: Record<string, string[]>;
+	// Marker texts stored by earlier versions
+	markers?: unknown;
+}
+
+interface Marker {
+	file: string;
+	line: number;
+	marker: string;
+	text: string;
+}
+
+export class ClaudeCodeTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Claude Code Trigger',
+		name: 'claudeCodeTrigger',
+		icon: 'file:claudecode.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["event"]}}',
+		description: 'Starts the workflow when commits, files or TODO markers change in a project',
+		defaults: {
+			name: 'Claude Code Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		properties: [
+			{
+				displayName: 'Project Path',
+				name: 'projectPath',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: '/home/user/projects/my-app',
+				description: 'The directory to watch',
+			},
+			{
+				displayName: 'Event',
+				name: 'event',
+				type: 'options',
+				options: [
+					{
+						name: 'File Changed',
+						value: 'fileChange',
+						description: 'A file matching the pattern was added, modified or deleted',
+					},
+					{
+						name: 'New Commit',
+						value: 'commit',
+						description: 'A commit was added to the branch',
+					},
+					{
+						name: 'TODO or FIXME Added',
+						value: 'marker',
+						description: 'A line with one of the markers appeared in a file matching the pattern',
+					},
+				],
+				default: 'commit',
+			},
+			{
+				displayName: 'Branch',
+				name: 'branch',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. main',
+				description: 'Branch to watch. Leave empty to follow whichever branch is checked out.',
+				displayOptions: {
+					show: {
+						event: ['commit'],
+					},
+				},
+			},
+			{
+				displayName: 'File Pattern',
+				name: 'filePattern',
+				type: 'string',
+				default: '**/*',
+				placeholder: 'e.g. src/**/*.{ts,tsx}, docs/*.md',
+				description:
+					'Comma-separated globs relative to the Project Path. In a git repository, files ignored by .gitignore are never watched.',
+				displayOptions: {
+					show: {
+						event: ['fileChange', 'marker'],
+					},
+				},
+			},
+			{
+				displayName: 'Markers',
+				name: 'markers',
+				type: 'string',
+				default: 'TODO, FIXME',
+				description: 'Comma-separated words that mark a line, matched as whole words',
+				displayOptions: {
+					show: {
+						event: ['marker'],
+					},
+				},
+			},
+			{
+				displayName: 'Include Diff',
+				name: 'includeDiff',
+				type: 'boolean',
+				default: true,
+				description:
+					'Whether to add the unified diff to the output. For file changes this needs a git repository and compares with the last commit.',
+				displayOptions: {
+					show: {
+						event: ['commit', 'fileChange'],
+					},
+				},
+			},
+		],
+	};
+
+	private static hashMarker(text: string): string {
+		return createHash('sha256').update(text).digest('base64').slice(0, 16);
+	}
+
+	private static findMarkers(projectPath: string, file: string, markers: RegExp): Marker[] {
+		const fullPath = path.join(projectPath, file);
+		let content: string;
+		try {
+			if (fs.statSync(fullPath).size > MAX_MARKER_FILE_SIZE) {
+				return [];
+			}
+			content = fs.readFileSync(fullPath, 'utf8');
+		} catch (error) {
+			// Deleted since the files were listed
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				return [];
+			}
+			throw error;
+		}
+		if (content.includes('\0')) {
+			return [];
+		}
+
+		const found: Marker[] = [];
+		content.split('\n').forEach((line, index) => {
+			const match = markers.exec(line);
+			if (match) {
+				found.push({ file, line: index + 1, marker: match[1], text: line.trim() });
+			}
+		});
+		return found;
+	}
+
+	private static async pollCommits(
+		this: IPollFunctions,
+		projectPath: string,
+		state: TriggerState,
+	): Promise<INodeExecutionData[]> {
+		const branch = (this.getNodeParameter('branch', '') as string).trim();
+		const includeDiff = this.getNodeParameter('includeDiff', true) as boolean;
+
+		let head: string;
+		try {
+			head = (
+				await runGit(projectPath, ['rev-parse', '--verify', `${branch || 'HEAD'}^{commit}`])
+			).trim();
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Cannot read ${branch || 'HEAD'} in ${projectPath}`,
+				{
+					description: (error as Error).message,
+				},
+			);
+		}
+
+		let commits: string[];
+		if (this.getMode() === 'manual') {
+			commits = [head];
+		} else if (!state.head || state.head === head) {
+			state.head = head;
+			return [];
+		} else {
+			try {
+				const revList = await runGit(projectPath, [
+					'rev-list',
+					'--reverse',
+					`${state.head}..${head}`,
+				]);
+				commits = revList.split('\n').filter((sha) => sha !== '');
+			} catch {
+				// The last seen commit is gone, e.g. after a force push and garbage collection
+				commits = [head];
+			}
+			state.head = head;
+		}
+
+		const branchName =
+			branch || (await runGit(projectPath, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+		const items: INodeExecutionData[] = [];
+		for (const sha of commits.slice(-MAX_COMMITS_PER_POLL)) {
+			const [author, email, date, message] = (
+				await runGit(projectPath, ['show', '-s', '--format=%an%x00%ae%x00%aI%x00%B', sha])
+			).split('\0');
+			const { changedFiles, diff, diffStats } = await getCommitChanges(projectPath, sha);
+			items.push({
+				json: {
+					event: 'commit',
+					projectPath,
+					branch: branchName,
+					commit: { sha, author, email, date, message: message.trim() },
+					changedFiles,
+					diffStats,
+					...(includeDiff && { diff }),
+				},
+			});
+		}
+		return items;
+	}
+
+	private static async pollFiles(
+		this: IPollFunctions,
+		projectPath: string,
+		state: TriggerState,
+	): Promise<INodeExecutionData[]> {
+		const filePattern = this.getNodeParameter('filePattern', '**/*') as string;
+		const includeDiff = this.getNodeParameter('includeDiff', true) as boolean;
+		const snapshot = await getFileSnapshot(projectPath, filePattern);
+		const previous = state.files;
+		state.files = snapshot;
+
+		let changedFiles: Array<{ status: string; path: string }>;
+		if (previous) {
+			changedFiles = [
+				...Object.keys(snapshot)
+					.filter((file) => previous[file] !== snapshot[file])
+					.map((file) => ({ status: file in previous ? 'M' : 'A', path: file })),
+				...Object.keys(previous)
+					.filter((file) => !(file in snapshot))
+					.map((file) => ({ status: 'D', path: file })),
+			];
+		} else if (this.getMode() === 'manual') {
+			// Show the most recently modified file so the output can be mapped while building
+			const latest = Object.keys(snapshot).sort(
+				(a, b) => parseFloat(snapshot[b]) - parseFloat(snapshot[a]),
+			)[0];
+			changedFiles = latest ? [{ status: 'M', path: latest }] : [];
+		} else {
+			return [];
+		}
+		if (changedFiles.length === 0) {
+			return [];
+		}
+
+		const json: IDataObject = { event: 'fileChange', projectPath, changedFiles };
+		if (includeDiff) {
+			try {
+				const changes = await getChanges(
+					projectPath,
+					'HEAD',
+					process.env,
+					changedFiles.map((file) => file.path),
+				);
+				json.diff = changes.diff;
+				json.diffStats = changes.diffStats;
+			} catch {
+				// Not a git repository, or one without commits
+				json.diff = null;
+			}
+		}
+		return [{ json }];
+	}
+
+	private static async pollMarkers(
+		this: IPollFunctions,
+		projectPath: string,
+		state: TriggerState,
+	): Promise<INodeExecutionData[]> {
+		const filePattern = this.getNodeParameter('filePattern', '**/*') as string;
+		const words = (this.getNodeParameter('markers', 'TODO, FIXME') as string)
+			.split(',')
+			.map((word) => word.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+			.filter((word) => word !== '');
+		if (words.length === 0) {
+			throw new NodeOperationError(this.getNode(), 'At least one marker is required');
+		}
+		const markers = new RegExp(`\\b(${words.join('|')})\\b`);
+
+		const snapshot = await getFileSnapshot(projectPath, filePattern);
+		const isBaseline = !state.markerHashes && this.getMode() !== 'manual';
+		const previousFiles = state.files ?? {};
+		const previousMarkers = state.markerHashes ?? {};
+		const knownMarkers: Record<string, string[]> = {};
+		const added: Marker[] = [];
+
+		for (const file of Object.keys(snapshot)) {
+			if (state.markerHashes && previousFiles[file] === snapshot[file]) {
+				if (previousMarkers[file]) knownMarkers[file] = previousMarkers[file];
+				continue;
+			}
+			const found = ClaudeCodeTrigger.findMarkers(projectPath, file, markers);
+			const hashes = found.map((marker) => ClaudeCodeTrigger.hashMarker(marker.text));
+			if (found.length > 0) {
+				knownMarkers[file] = hashes;
+			}
+			const seen = new Set(previousMarkers[file] ?? []);
+			added.push(...found.filter((_, index) => !seen.has(hashes[index])));
+		}
+
+		state.files = snapshot;
+		state.markerHashes = knownMarkers;
+		delete state.markers;
+		if (isBaseline) {
+			return [];
+		}
+		return added.map((marker) => ({ json: { event: 'marker', projectPath, ...marker } }));
+	}
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const event = this.getNodeParameter('event') as string;
+		const projectPath = path.resolve((this.getNodeParameter('projectPath') as string).trim());
+		if (!fs.existsSync(projectPath) || !fs.statSync(projectPath).isDirectory()) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Project Path is not a directory: ${projectPath}`,
+			);
+		}
+
+		// The first poll only records the current state; later polls report what changed since
+		const state = this.getWorkflowStaticData('node') as TriggerState;
+		let items: INodeExecutionData[];
+		if (event === 'commit') {
+			items = await ClaudeCodeTrigger.pollCommits.call(this, projectPath, state);
+		} else if (event === 'fileChange') {
+			items = await ClaudeCodeTrigger.pollFiles.call(this, projectPath, state);
+		} else {
+			items = await ClaudeCodeTrigger.pollMarkers.call(this, projectPath, state);
+		}
+
+		return items.length > 0 ? [items] : null;
+	}
+}
@@ -0,0 +1,138 @@
+import type { IDataObject, INode, IPollFunctions } from 'n8n-workflow';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeTrigger } from '../ClaudeCodeTrigger.node';
+
+// Files listed here fail to stat, as if they were deleted after the directory was read
+const mockVanishedFiles = new Set<string>();
+jest.mock('fs', () => {
+	const actual = jest.requireActual('fs');
+	return {
+		...actual,
+		statSync: (file: string, ...args: unknown[]) => {
+			if (mockVanishedFiles.has(file)) {
+				throw Object.assign(new Error(`ENOENT: no such file or directory, stat '${file}'`), {
+					code: 'ENOENT',
+				});
+			}
+			return actual.statSync(file, ...args);
+		},
+	};
+});
+
+const node = {
+	name: 'Claude Code Trigger',
+	type: 'claudeCodeTrigger',
+	typeVersion: 1,
+	parameters: {},
+} as INode;
+
+function git(cwd: string, ...args: string[]) {
+	execFileSync(
+		'git',
+		[
+			'-c',
+			'user.name=test',
+			'-c',
+			'user.email=test@localhost',
+			'-c',
+			'commit.gpgsign=false',
+			...args,
+		],
+		{ cwd, stdio: 'ignore' },
+	);
+}
+
+describe('ClaudeCodeTrigger', () => {
+	const trigger = new ClaudeCodeTrigger();
+	let project: string;
+	let staticData: IDataObject;
+	const write = (file: string, content: string) =>
+		fs.writeFileSync(path.join(project, file), content);
+	const poll = (parameters: IDataObject) =>
+		trigger.poll.call({
+			getNode: () => node,
+			getMode: () => 'trigger',
+			getNodeParameter: (name: string, fallback?: unknown) =>
+				name in parameters ? parameters[name] : fallback,
+			getWorkflowStaticData: () => staticData,
+		} as unknown as IPollFunctions);
+
+	beforeEach(() => {
+		project = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-test-'));
+		staticData = {};
+		write('app.js', 'app\n');
+	});
+
+	afterEach(() => {
+		mockVanishedFiles.clear();
+		fs.rmSync(project, { recursive: true, force: true });
+	});
+
+	it('emits the commits added since the last poll', async () => {
+		git(project, 'init', '--quiet');
+		git(project, 'add', '-A');
+		git(project, 'commit', '--quiet', '-m', 'initial');
+		const parameters = { projectPath: project, event: 'commit', includeDiff: false };
+		expect(await poll(parameters)).toBeNull();
+
+		write('app.js', 'fixed app\n');
+		git(project, 'commit', '--quiet', '-am', 'Fix the app');
+		const output = await poll(parameters);
+		expect(output?.[0]).toHaveLength(1);
+		expect(output?.[0][0].json).toMatchObject({
+			event: 'commit',
+			commit: { message: 'Fix the app', author: 'test' },
+			changedFiles: [{ status: 'M', path: 'app.js' }],
+		});
+		expect(await poll(parameters)).toBeNull();
+	});
+
+	it('emits added, modified and deleted files', async () => {
+		write('old.js', 'old\n');
+		const parameters = { projectPath: project, event: 'fileChange', includeDiff: false };
+		expect(await poll(parameters)).toBeNull();
+
+		write('app.js', 'changed app\n');
+		write('new.js', 'new\n');
+		fs.rmSync(path.join(project, 'old.js'));
+		const output = await poll(parameters);
+		expect(output?.[0][0].json.changedFiles).toEqual([
+			{ status: 'M', path: 'app.js' },
+			{ status: 'A', path: 'new.js' },
+			{ status: 'D', path: 'old.js' },
+		]);
+	});
+
+	it('emits new markers and keeps only hashes of them', async () => {
+		write('todo.js', '// TODO: known\n');
+		const parameters = { projectPath: project, event: 'marker' };
+		expect(await poll(parameters)).toBeNull();
+
+		write('todo.js', '// TODO: known\n// FIXME: handle errors\n');
+		const output = await poll(parameters);
+		expect(output?.[0].map((item) => item.json)).toEqual([
+			{
+				event: 'marker',
+				projectPath: project,
+				file: 'todo.js',
+				line: 2,
+				marker: 'FIXME',
+				text: '// FIXME: handle errors',
+			},
+		]);
+		expect(JSON.stringify(staticData)).not.toContain('handle errors');
+		expect(await poll(parameters)).toBeNull();
+	});
+
+	it('skips files deleted while the poll reads them', async () => {
+		const parameters = { projectPath: project, event: 'fileChange', includeDiff: false };
+		expect(await poll(parameters)).toBeNull();
+
+		write('gone.js', 'gone\n');
+		mockVanishedFiles.add(path.join(project, 'gone.js'));
+		expect(await poll(parameters)).toBeNull();
+	});
+});
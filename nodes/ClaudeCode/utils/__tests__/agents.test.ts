@@ -0,0 +1,114 @@
+import type { INode } from 'n8n-workflow';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	getConfigDirectory,
+	getGlobalConfigFile,
+	removeAgentFiles,
+	writeAgentFiles,
+} from '../agents';
+
+const node = { name: 'Claude Code', type: 'claudeCode', typeVersion: 1, parameters: {} } as INode;
+
+describe('writeAgentFiles', () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-test-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(cwd, { recursive: true, force: true });
+	});
+
+	it('writes subagents and slash commands where the CLI finds project agents', () => {
+		const files = writeAgentFiles(
+			node,
+			cwd,
+			[
+				{
+					name: 'reviewer',
+					description: 'Reviews code\nfor bugs',
+					systemPrompt: 'Be strict.',
+					tools: ['Read', 'Grep'],
+					model: 'haiku',
+				},
+			],
+			[{ name: 'write-tests', description: 'Adds tests', prompt: 'Write tests for $ARGUMENTS' }],
+			0,
+		);
+		expect(files.map((file) => file.path)).toEqual([
+			path.join('.claude', 'agents', 'reviewer.md'),
+			path.join('.claude', 'commands', 'write-tests.md'),
+		]);
+		expect(fs.readFileSync(path.join(cwd, files[0].path), 'utf8')).toBe(
+			'---\nname: reviewer\ndescription: "Reviews code for bugs"\ntools: Read, Grep\nmodel: haiku\n---\n\nBe strict.\n',
+		);
+		expect(fs.readFileSync(path.join(cwd, files[1].path), 'utf8')).toBe(
+			'---\ndescription: "Adds tests"\n---\n\nWrite tests for $ARGUMENTS\n',
+		);
+	});
+
+	it('removes its files and folders and puts back the project files it replaced', () => {
+		const projectAgent = path.join(cwd, '.claude', 'agents', 'reviewer.md');
+		fs.mkdirSync(path.dirname(projectAgent), { recursive: true });
+		fs.writeFileSync(projectAgent, 'project reviewer');
+
+		const files = writeAgentFiles(
+			node,
+			cwd,
+			[{ name: 'reviewer', description: 'Node reviewer' }],
+			[{ name: 'deploy', prompt: 'Deploy' }],
+			0,
+		);
+		expect(fs.readFileSync(projectAgent, 'utf8')).toContain('Node reviewer');
+
+		removeAgentFiles(cwd, files);
+		expect(fs.readFileSync(projectAgent, 'utf8')).toBe('project reviewer');
+		expect(fs.existsSync(path.join(cwd, '.claude', 'commands'))).toBe(false);
+	});
+
+	it('leaves no .claude folder behind in a project without one', () => {
+		removeAgentFiles(cwd, writeAgentFiles(node, cwd, [], [{ name: 'a', prompt: 'A' }], 0));
+		expect(fs.readdirSync(cwd)).toEqual([]);
+	});
+
+	it('rejects names that are not valid CLI identifiers', () => {
+		expect(() => writeAgentFiles(node, cwd, [{ name: '../x', description: 'x' }], [], 0)).toThrow(
+			'Invalid subagent name "../x"',
+		);
+		expect(fs.readdirSync(cwd)).toEqual([]);
+	});
+});
+
+describe('CLI config files', () => {
+	const configDirectory = process.env.CLAUDE_CONFIG_DIR;
+	let directory: string;
+
+	beforeEach(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-test-'));
+		process.env.CLAUDE_CONFIG_DIR = directory;
+	});
+
+	afterEach(() => {
+		if (configDirectory === undefined) {
+			delete process.env.CLAUDE_CONFIG_DIR;
+		} else {
+			process.env.CLAUDE_CONFIG_DIR = configDirectory;
+		}
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('are found in CLAUDE_CONFIG_DIR, preferring the legacy global config', () => {
+		expect(getConfigDirectory()).toBe(directory);
+		expect(getGlobalConfigFile()).toBe(path.join(directory, '.claude.json'));
+		fs.writeFileSync(path.join(directory, '.config.json'), '{}');
+		expect(getGlobalConfigFile()).toBe(path.join(directory, '.config.json'));
+	});
+
+	it('default to the home directory', () => {
+		delete process.env.CLAUDE_CONFIG_DIR;
+		expect(getConfigDirectory()).toBe(path.join(os.homedir(), '.claude'));
+	});
+});
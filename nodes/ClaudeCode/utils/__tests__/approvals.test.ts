@@ -0,0 +1,100 @@
+import type { IDataObject } from 'n8n-workflow';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	getApprovalDecisions,
+	getApprovalState,
+	removeExpiredApprovals,
+	saveApprovalState,
+	type ApprovalState,
+	type PendingApproval,
+} from '../approvals';
+
+function pendingCall(toolUseId: string, attachmentDirectory?: string): PendingApproval {
+	return {
+		sessionId: 'session-1',
+		request: { toolName: 'Bash', toolInput: { command: 'npm publish' }, toolUseId },
+		options: { model: 'sonnet', maxTurns: 5, permissionMode: 'default' },
+		run: { itemIndex: 0, attachmentDirectory } as PendingApproval['run'],
+	};
+}
+
+function createState(pending: PendingApproval[], expiresAt: number | null): ApprovalState {
+	return { expiresAt, executionCostUsd: 0, completed: [], pending };
+}
+
+describe('getApprovalDecisions', () => {
+	const pending = [pendingCall('toolu_1'), pendingCall('toolu_2')];
+
+	it('reads a decision for each named call', () => {
+		const decisions = getApprovalDecisions(
+			pending,
+			{
+				decisions: [
+					{ toolUseId: 'toolu_1', approved: true },
+					{ toolUseId: 'toolu_2', approved: 'false', message: ' Not on Fridays ' },
+				],
+			},
+			{},
+		);
+		expect([...decisions]).toEqual([
+			['toolu_1', { approved: true, reason: '' }],
+			['toolu_2', { approved: false, reason: 'Not on Fridays' }],
+		]);
+	});
+
+	it('reads a single decision from the query of a GET link', () => {
+		const decisions = getApprovalDecisions(pending, {}, { toolUseId: 'toolu_2', approved: 'true' });
+		expect([...decisions]).toEqual([['toolu_2', { approved: true, reason: '' }]]);
+	});
+
+	it('applies a decision without toolUseId only while one call is pending', () => {
+		expect([...getApprovalDecisions([pending[0]], { approved: true }, {})]).toEqual([
+			['toolu_1', { approved: true, reason: '' }],
+		]);
+		expect(() => getApprovalDecisions(pending, { approved: true }, {})).toThrow(
+			'2 tool calls are pending',
+		);
+	});
+
+	it('rejects unknown calls and missing decisions', () => {
+		expect(() =>
+			getApprovalDecisions(pending, { toolUseId: 'toolu_3', approved: true }, {}),
+		).toThrow('No tool call "toolu_3" is pending');
+		expect(() => getApprovalDecisions(pending, { toolUseId: 'toolu_1' }, {})).toThrow(
+			'"approved" must be true or false',
+		);
+		expect(() => getApprovalDecisions(pending, { decisions: [] }, {})).toThrow(
+			'The request contains no decision',
+		);
+	});
+});
+
+describe('approval state', () => {
+	it('is kept per execution in the static data', () => {
+		const staticData: IDataObject = {};
+		const state = createState([pendingCall('toolu_1')], null);
+		saveApprovalState(staticData, '1', state);
+		state.executionCostUsd = 1;
+
+		expect(getApprovalState(staticData, '1')).toEqual({ ...state, executionCostUsd: 0 });
+		expect(getApprovalState(staticData, '2')).toBeUndefined();
+	});
+
+	it('is removed with the files of its runs once the wait timed out', async () => {
+		const attachmentDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-test-'));
+		const staticData: IDataObject = {};
+		saveApprovalState(
+			staticData,
+			'1',
+			createState([pendingCall('toolu_1', attachmentDirectory)], Date.now() - 1),
+		);
+		saveApprovalState(staticData, '2', createState([pendingCall('toolu_2')], null));
+
+		await removeExpiredApprovals(staticData);
+		expect(getApprovalState(staticData, '1')).toBeUndefined();
+		expect(getApprovalState(staticData, '2')).toBeDefined();
+		expect(fs.existsSync(attachmentDirectory)).toBe(false);
+	});
+});
@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	ATTACHMENT_FOLDER,
+	attachFiles,
+	describeAttachments,
+	findOutputFiles,
+	getAttachmentProperties,
+	getImageAttachments,
+	removeAttachments,
+	writeAttachments,
+	type AttachmentFile,
+} from '../attachments';
+import { getFileSnapshot } from '../files';
+
+const file = (property: string, fileName: string | undefined, mimeType = 'text/plain') => ({
+	property,
+	fileName,
+	mimeType,
+	data: Buffer.from(`${property} data`),
+});
+
+describe('getAttachmentProperties', () => {
+	it('splits the property list', () => {
+		expect(getAttachmentProperties({ inputProperties: ' data, ,screenshot ' })).toEqual([
+			'data',
+			'screenshot',
+		]);
+		expect(getAttachmentProperties({})).toEqual([]);
+	});
+});
+
+describe('writeAttachments', () => {
+	let cwd: string;
+	const directories: string[] = [];
+
+	beforeEach(() => {
+		cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-test-'));
+	});
+
+	afterEach(() => {
+		for (const directory of directories.splice(0)) {
+			removeAttachments(directory);
+		}
+		fs.rmSync(cwd, { recursive: true, force: true });
+	});
+
+	it('writes to a scratch folder outside the working directory', () => {
+		const { directory, attachments } = writeAttachments(cwd, 'scratch', [file('data', 'a.txt')]);
+		directories.push(directory);
+		expect(path.relative(cwd, directory).startsWith('..')).toBe(true);
+		expect(attachments).toEqual([
+			{ property: 'data', path: path.join(directory, 'a.txt'), mimeType: 'text/plain', size: 9 },
+		]);
+		expect(fs.readFileSync(attachments[0].path, 'utf8')).toBe('data data');
+	});
+
+	it('names files after their property when the name is missing or taken', () => {
+		const { directory, attachments } = writeAttachments(cwd, 'workingDirectory', [
+			file('data', 'a.txt'),
+			file('other', 'a.txt'),
+			file('log', undefined),
+			file('evil', '../../escape.txt'),
+		]);
+		expect(directory).toBe(path.join(cwd, ATTACHMENT_FOLDER));
+		expect(attachments.map((attachment) => path.basename(attachment.path))).toEqual([
+			'a.txt',
+			'other-a.txt',
+			'log',
+			'escape.txt',
+		]);
+		expect(fs.readdirSync(directory).sort()).toEqual(['a.txt', 'escape.txt', 'log', 'other-a.txt']);
+	});
+
+	it('lists the files in the prompt relative to the working directory', () => {
+		const { attachments } = writeAttachments(cwd, 'workingDirectory', [file('data', 'a.txt')]);
+		expect(describeAttachments(attachments, cwd)).toBe(
+			`The following files are attached to this task:\n- ${path.join(ATTACHMENT_FOLDER, 'a.txt')} (text/plain, 9 bytes)`,
+		);
+	});
+
+	it('sends images as content blocks unless turned off', async () => {
+		const files = [file('data', 'a.txt'), file('screenshot', 'shot.png', 'image/png')];
+		const attached = attachFiles(cwd, 'Fix it', { location: 'workingDirectory' }, files);
+		expect(attached.imageCount).toBe(1);
+		const messages = [];
+		for await (const message of attached.prompt as AsyncIterable<unknown>) {
+			messages.push(message);
+		}
+		expect(messages).toMatchObject([
+			{
+				message: {
+					content: [
+						{ type: 'image', source: { media_type: 'image/png' } },
+						{ type: 'text', text: expect.stringMatching(/^Fix it\n\nThe following files/) },
+					],
+				},
+			},
+		]);
+
+		const withoutImages = attachFiles(
+			cwd,
+			'Fix it',
+			{ location: 'workingDirectory', sendImages: false },
+			files,
+		);
+		expect(withoutImages.imageCount).toBe(0);
+		expect(typeof withoutImages.prompt).toBe('string');
+	});
+});
+
+describe('getImageAttachments', () => {
+	it('keeps images of types and sizes the API accepts', () => {
+		const large: AttachmentFile = {
+			...file('large', 'large.png', 'image/png'),
+			data: Buffer.alloc(6 * 1024 * 1024),
+		};
+		const files = [file('photo', 'a.jpg', 'image/jpeg'), file('icon', 'a.svg', 'image/svg+xml')];
+		expect(getImageAttachments([...files, large])).toEqual([files[0]]);
+	});
+});
+
+describe('findOutputFiles', () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-test-'));
+		fs.writeFileSync(path.join(cwd, 'report.md'), 'old\n');
+		fs.writeFileSync(path.join(cwd, 'same.md'), 'same\n');
+	});
+
+	afterEach(() => {
+		fs.rmSync(cwd, { recursive: true, force: true });
+	});
+
+	it('returns the files created or changed since the snapshot, without attachments', async () => {
+		const before = await getFileSnapshot(cwd, '**/*.md');
+		fs.writeFileSync(path.join(cwd, 'report.md'), 'rewritten\n');
+		fs.writeFileSync(path.join(cwd, 'summary.md'), 'summary\n');
+		writeAttachments(cwd, 'workingDirectory', [file('notes', 'notes.md')]);
+		expect((await findOutputFiles(cwd, '**/*.md', before)).sort()).toEqual([
+			'report.md',
+			'summary.md',
+		]);
+	});
+});
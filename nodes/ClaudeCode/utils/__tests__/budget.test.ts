@@ -0,0 +1,96 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { INode } from 'n8n-workflow';
+import { getItemBudgetLimits, UsageMeter } from '../budget';
+
+const node = { name: 'Claude Code', type: 'claudeCode', typeVersion: 1, parameters: {} } as INode;
+
+function apiCall(id: string, model: string, usage: object): SDKMessage {
+	return { type: 'assistant', message: { id, model, usage, content: [] } } as unknown as SDKMessage;
+}
+
+function result(totalCostUsd: number): SDKMessage {
+	return { type: 'result', subtype: 'success', total_cost_usd: totalCostUsd } as SDKMessage;
+}
+
+describe('UsageMeter', () => {
+	it('estimates API calls by model price and counts each call once', () => {
+		const meter = new UsageMeter();
+		const usage = { input_tokens: 1000, output_tokens: 1000 };
+		// Every content block of a call repeats its usage
+		meter.add(apiCall('a', 'claude-sonnet-4', usage));
+		meter.add(apiCall('a', 'claude-sonnet-4', usage));
+		meter.add(apiCall('b', 'claude-opus-4', usage));
+		expect(meter.usage.tokens).toBe(4000);
+		expect(meter.usage.costUsd).toBeCloseTo(0.018 + 0.09);
+	});
+
+	it('prices cache writes and reads relative to input', () => {
+		const meter = new UsageMeter();
+		meter.add(
+			apiCall('a', 'claude-haiku', {
+				cache_creation_input_tokens: 1_000_000,
+				cache_read_input_tokens: 1_000_000,
+			}),
+		);
+		expect(meter.usage.costUsd).toBeCloseTo(0.8 * 1.25 + 0.8 * 0.1);
+	});
+
+	it('prices unknown models like Sonnet', () => {
+		const meter = new UsageMeter();
+		meter.add(apiCall('a', 'some-proxy-model', { output_tokens: 1_000_000 }));
+		expect(meter.usage.costUsd).toBeCloseTo(15);
+	});
+
+	it('replaces the estimate with the cost the CLI reports and keeps counting', () => {
+		const meter = new UsageMeter();
+		meter.add(apiCall('a', 'claude-sonnet-4', { input_tokens: 500 }));
+		meter.add(result(0.25));
+		expect(meter.usage).toEqual({ costUsd: 0.25, tokens: 500 });
+
+		meter.add(apiCall('b', 'claude-sonnet-4', { input_tokens: 1_000_000 }));
+		expect(meter.usage.costUsd).toBeCloseTo(3.25);
+		meter.add(result(0.5));
+		expect(meter.usage).toEqual({ costUsd: 0.75, tokens: 1_000_500 });
+	});
+
+	it('starts from the usage of earlier queries', () => {
+		const meter = new UsageMeter({ costUsd: 1, tokens: 100 });
+		meter.add(result(0.5));
+		expect(meter.usage).toEqual({ costUsd: 1.5, tokens: 100 });
+	});
+
+	it('names the first limit reached', () => {
+		const meter = new UsageMeter({ costUsd: 2, tokens: 5000 });
+		expect(meter.getExceededLimit({ maxCostUsd: 2, maxTokens: 1000 })).toBe(
+			'cost limit of $2 reached ($2.0000 spent)',
+		);
+		expect(meter.getExceededLimit({ maxCostUsd: 3, maxTokens: 1000 })).toBe(
+			'token limit of 1000 reached (5000 tokens used)',
+		);
+		expect(meter.getExceededLimit({ maxCostUsd: 3 })).toBeUndefined();
+		expect(meter.getExceededLimit({})).toBeUndefined();
+	});
+});
+
+describe('getItemBudgetLimits', () => {
+	it('limits an item to what is left of the execution budget', () => {
+		expect(getItemBudgetLimits(node, { maxCostUsd: 2, maxTokens: 1000 }, 5, 4, 0)).toEqual({
+			maxCostUsd: 1,
+			maxTokens: 1000,
+		});
+		expect(getItemBudgetLimits(node, { maxCostUsd: 2 }, 5, 1, 0)).toEqual({
+			maxCostUsd: 2,
+			maxTokens: undefined,
+		});
+		expect(getItemBudgetLimits(node, {}, undefined, 10, 0)).toEqual({
+			maxCostUsd: undefined,
+			maxTokens: undefined,
+		});
+	});
+
+	it('does not start an item once the execution budget is used up', () => {
+		expect(() => getItemBudgetLimits(node, {}, 5, 5.5, 0)).toThrow(
+			'Execution budget of $5 is used up',
+		);
+	});
+});
@@ -0,0 +1,59 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import { createConversationInput, getItemTurns, splitTurns } from '../conversation';
+
+const turns = [
+	{ itemIndex: 0, prompt: 'First' },
+	{ itemIndex: 1, prompt: 'Second' },
+];
+
+describe('getItemTurns', () => {
+	it('reads the turns field or falls back to the prompt', () => {
+		expect(
+			getItemTurns(0, { messages: ['Hi', '', { ask: 'more' }] }, 'messages', 'unused'),
+		).toEqual([
+			{ itemIndex: 0, prompt: 'Hi' },
+			{ itemIndex: 0, prompt: '{"ask":"more"}' },
+		]);
+		expect(getItemTurns(1, {}, 'messages', 'unused')).toEqual([]);
+		expect(getItemTurns(2, {}, '', 'Hello')).toEqual([{ itemIndex: 2, prompt: 'Hello' }]);
+	});
+});
+
+describe('createConversationInput', () => {
+	it('sends each turn once the previous one is answered', async () => {
+		const conversation = createConversationInput(turns);
+		const input = conversation.prompt[Symbol.asyncIterator]();
+
+		expect((await input.next()).value).toMatchObject({ message: { content: 'First' } });
+		const second = input.next();
+		conversation.onReply();
+		expect((await second).value).toMatchObject({ message: { content: 'Second' } });
+		const end = input.next();
+		conversation.onReply();
+		expect(await end).toEqual({ done: true, value: undefined });
+	});
+
+	it('ends the input when the query finishes before every turn is answered', async () => {
+		const conversation = createConversationInput(turns);
+		const input = conversation.prompt[Symbol.asyncIterator]();
+
+		await input.next();
+		const next = input.next();
+		conversation.close();
+		expect(await next).toEqual({ done: true, value: undefined });
+	});
+});
+
+describe('splitTurns', () => {
+	it('ends each turn with its result message', () => {
+		const messages = [
+			{ type: 'system' },
+			{ type: 'assistant' },
+			{ type: 'result' },
+			{ type: 'assistant' },
+			{ type: 'result' },
+			{ type: 'assistant' },
+		] as SDKMessage[];
+		expect(splitTurns(messages)).toEqual([messages.slice(0, 3), messages.slice(3, 5)]);
+	});
+});
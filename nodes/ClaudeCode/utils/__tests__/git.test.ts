@@ -0,0 +1,79 @@
+import type { INode } from 'n8n-workflow';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { finishGitRun, getCommitChanges, startGitRun } from '../git';
+
+const node = { name: 'Claude Code', type: 'claudeCode', typeVersion: 1, parameters: {} } as INode;
+
+function git(cwd: string, ...args: string[]): string {
+	return execFileSync('git', args, { cwd }).toString().trimEnd();
+}
+
+describe('git runs', () => {
+	let repository: string;
+	const write = (file: string, content: string) =>
+		fs.writeFileSync(path.join(repository, file), content);
+
+	beforeEach(() => {
+		repository = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-test-'));
+		git(repository, 'init', '--quiet');
+		git(repository, 'config', 'user.name', 'test');
+		git(repository, 'config', 'user.email', 'test@localhost');
+		git(repository, 'config', 'commit.gpgsign', 'false');
+		write('app.js', 'app\n');
+		write('notes.md', 'notes\n');
+		git(repository, 'add', '-A');
+		git(repository, 'commit', '--quiet', '-m', 'initial');
+	});
+
+	afterEach(() => {
+		fs.rmSync(repository, { recursive: true, force: true });
+	});
+
+	it('commits only the files the run changed', async () => {
+		write('notes.md', 'my notes\n');
+		write('draft.md', 'draft\n');
+		write('staged.md', 'staged\n');
+		git(repository, 'add', 'staged.md');
+
+		const run = await startGitRun(node, repository, { commit: true }, 'Fix the app', 0);
+		write('app.js', 'fixed app\n');
+		write('[new].js', 'new\n');
+		const output = await finishGitRun(run, 'Fixed it');
+
+		expect(git(repository, 'log', '-1', '--format=%s')).toBe('Claude Code: Fix the app');
+		const committed = await getCommitChanges(repository, output.commit as string);
+		expect(committed.changedFiles).toEqual([
+			{ status: 'A', path: '[new].js' },
+			{ status: 'M', path: 'app.js' },
+		]);
+		expect(git(repository, 'status', '--porcelain').split('\n')).toEqual([
+			' M notes.md',
+			'A  staged.md',
+			'?? draft.md',
+		]);
+	});
+
+	it('reports every change since the start without committing failed runs', async () => {
+		const run = await startGitRun(node, repository, { commit: true }, 'Fix the app', 0);
+		write('app.js', 'fixed app\n');
+		const output = await finishGitRun(run, null);
+
+		expect(output.commit).toBeNull();
+		expect(output.endHead).toBe(run.startHead);
+		expect(output.changedFiles).toEqual([{ status: 'M', path: 'app.js' }]);
+		expect(output.diffStats).toEqual({ filesChanged: 1, insertions: 1, deletions: 1 });
+	});
+
+	it('creates the branch and refuses a dirty worktree when asked to', async () => {
+		const run = await startGitRun(node, repository, { branch: 'claude/fix' }, 'Fix', 0);
+		expect(run.branch).toBe('claude/fix');
+
+		write('app.js', 'changed\n');
+		await expect(startGitRun(node, repository, { requireClean: true }, 'Fix', 0)).rejects.toThrow(
+			'The git worktree has uncommitted changes',
+		);
+	});
+});
@@ -0,0 +1,111 @@
+import { checkJsonSchema, extractJson, validateJsonSchema } from '../jsonSchema';
+
+describe('checkJsonSchema', () => {
+	it('accepts a valid schema', () => {
+		expect(
+			checkJsonSchema({
+				type: 'object',
+				properties: { name: { type: 'string', pattern: '^[a-z]+$' } },
+				required: ['name'],
+			}),
+		).toEqual([]);
+	});
+
+	it('reports unknown types, broken patterns and malformed keywords with their path', () => {
+		expect(
+			checkJsonSchema({
+				type: 'object',
+				properties: { age: { type: 'int' }, code: { pattern: '[' } },
+				required: 'age',
+			}),
+		).toEqual([
+			'$.required should be an array of property names',
+			'$.properties.age.type "int" is not a JSON Schema type',
+			expect.stringMatching(/^\$\.properties\.code\.pattern is not a valid regular expression/),
+		]);
+	});
+
+	it('rejects keywords the validator would ignore and keeps annotations', () => {
+		expect(
+			checkJsonSchema({
+				$schema: 'http://json-schema.org/draft-07/schema#',
+				title: 'Issue',
+				type: 'object',
+				definitions: { id: { type: 'string' } },
+				properties: {
+					id: { $ref: '#/definitions/id' },
+					email: { type: 'string', format: 'email', description: 'Reporter' },
+					count: { type: 'integer', minimum: '1' },
+				},
+			}),
+		).toEqual([
+			'$.definitions is not supported by the validator',
+			'$.properties.id.$ref is not supported by the validator',
+			'$.properties.email.format is not supported by the validator',
+			'$.properties.count.minimum should be a number',
+		]);
+	});
+});
+
+describe('validateJsonSchema', () => {
+	const schema = {
+		type: 'object',
+		properties: {
+			title: { type: 'string', minLength: 3 },
+			score: { type: 'number', minimum: 0, maximum: 10 },
+			tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+		},
+		required: ['title', 'score'],
+		additionalProperties: false,
+	};
+
+	it('accepts a matching value', () => {
+		expect(validateJsonSchema(schema, { title: 'Fix', score: 7, tags: ['bug'] })).toEqual([]);
+	});
+
+	it('reports every violation with its path', () => {
+		expect(validateJsonSchema(schema, { title: 'x', tags: ['a', 1, 'c'], extra: true })).toEqual([
+			'$.score is required',
+			'$.title should have at least 3 characters',
+			'$.tags should have at most 2 items',
+			'$.tags[1] should be string, got integer',
+			'$.extra is not allowed',
+		]);
+	});
+
+	it('stops at a wrong type', () => {
+		expect(validateJsonSchema(schema, [])).toEqual(['$ should be object, got array']);
+	});
+
+	it('checks enum, const and the combinators', () => {
+		expect(validateJsonSchema({ enum: ['low', 'high'] }, 'medium')).toEqual([
+			'$ should be one of ["low","high"]',
+		]);
+		expect(validateJsonSchema({ const: 1 }, 1)).toEqual([]);
+		expect(validateJsonSchema({ anyOf: [{ type: 'string' }, { type: 'null' }] }, 3)).toEqual([
+			'$ should match at least one schema in anyOf',
+		]);
+		expect(validateJsonSchema({ oneOf: [{ type: 'number' }, { minimum: 0 }] }, 5)).toEqual([
+			'$ should match exactly one schema in oneOf, matched 2',
+		]);
+	});
+});
+
+describe('extractJson', () => {
+	it('parses a plain JSON answer', () => {
+		expect(extractJson(' {"ok": true} ')).toEqual({ value: { ok: true } });
+	});
+
+	it('prefers the last fenced block', () => {
+		const answer = 'First try:\n```json\n{"v": 1}\n```\nCorrected:\n```json\n{"v": 2}\n```';
+		expect(extractJson(answer)).toEqual({ value: { v: 2 } });
+	});
+
+	it('falls back to the outermost brackets', () => {
+		expect(extractJson('Here you go: [1, 2] - done')).toEqual({ value: [1, 2] });
+	});
+
+	it('returns undefined without JSON', () => {
+		expect(extractJson('No JSON here')).toBeUndefined();
+	});
+});
@@ -0,0 +1,87 @@
+import type { INode } from 'n8n-workflow';
+import { buildMcpServers, getMcpSecrets, parseMcpToolNames } from '../mcp';
+
+const node = { name: 'Claude Code', type: 'claudeCode', typeVersion: 1, parameters: {} } as INode;
+
+describe('buildMcpServers', () => {
+	it('fills secrets into the servers that use them and keeps other placeholders', () => {
+		expect(
+			buildMcpServers(
+				node,
+				[
+					{
+						name: 'postgres',
+						transport: 'stdio',
+						command: 'npx',
+						args: '-y\n@modelcontextprotocol/server-postgres\n',
+						env: '{"DATABASE_URL": "${DATABASE_URL}", "HOME": "${HOME:-/root}"}',
+					},
+					{
+						name: 'github',
+						transport: 'http',
+						url: 'https://api.example.com/mcp',
+						headers: { Authorization: 'Bearer ${GITHUB_TOKEN}' },
+					},
+				],
+				{ DATABASE_URL: 'postgres://secret', GITHUB_TOKEN: 'ghp_secret' },
+			),
+		).toEqual({
+			postgres: {
+				type: 'stdio',
+				command: 'npx',
+				args: ['-y', '@modelcontextprotocol/server-postgres'],
+				env: { DATABASE_URL: 'postgres://secret', HOME: '${HOME:-/root}' },
+			},
+			github: {
+				type: 'http',
+				url: 'https://api.example.com/mcp',
+				headers: { Authorization: 'Bearer ghp_secret' },
+			},
+		});
+	});
+
+	it('rejects invalid and duplicate server names', () => {
+		expect(() => buildMcpServers(node, [{ name: 'my server', transport: 'stdio' }])).toThrow(
+			'Invalid MCP server name: "my server"',
+		);
+		const server = { name: 'github', transport: 'sse' as const, url: 'https://example.com' };
+		expect(() => buildMcpServers(node, [server, server])).toThrow(
+			'Duplicate MCP server name: "github"',
+		);
+	});
+
+	it('rejects servers without a command or URL', () => {
+		expect(() => buildMcpServers(node, [{ name: 'local', transport: 'stdio' }])).toThrow(
+			'MCP server "local" needs a command',
+		);
+		expect(() => buildMcpServers(node, [{ name: 'remote', transport: 'http' }])).toThrow(
+			'MCP server "remote" needs a URL',
+		);
+	});
+});
+
+describe('getMcpSecrets', () => {
+	it('reads the secrets as strings', () => {
+		expect(getMcpSecrets({ secrets: '{"TOKEN": "abc", "PORT": 5432}' })).toEqual({
+			TOKEN: 'abc',
+			PORT: '5432',
+		});
+		expect(getMcpSecrets({ secrets: ' ' })).toEqual({});
+	});
+});
+
+describe('parseMcpToolNames', () => {
+	it('splits the list and accepts arrays of saved workflows', () => {
+		expect(parseMcpToolNames(node, 'mcp__github, mcp__postgres__query,\n', 0)).toEqual([
+			'mcp__github',
+			'mcp__postgres__query',
+		]);
+		expect(parseMcpToolNames(node, ['mcp__github'], 0)).toEqual(['mcp__github']);
+	});
+
+	it('rejects names that are not MCP tools', () => {
+		expect(() => parseMcpToolNames(node, 'mcp__github, Bash', 0)).toThrow(
+			'Invalid MCP tool name: "Bash"',
+		);
+	});
+});
@@ -0,0 +1,107 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import { getProgressEvents, getToolCalls, summarizeToolCalls, type ToolCall } from '../messages';
+
+const toolUse = (id: string, name: string, input: object) =>
+	({
+		type: 'assistant',
+		message: { content: [{ type: 'tool_use', id, name, input }] },
+	}) as SDKMessage;
+
+const toolResult = (id: string, content: unknown, isError = false) =>
+	({
+		type: 'user',
+		message: { content: [{ type: 'tool_result', tool_use_id: id, is_error: isError, content }] },
+	}) as SDKMessage;
+
+const toolCall = (name: string, input: object, isError = false): ToolCall => ({
+	name,
+	input: input as ToolCall['input'],
+	result: null,
+	isError,
+	startedAt: null,
+	durationMs: null,
+});
+
+describe('getProgressEvents', () => {
+	it('turns assistant text, tool calls and their results into events', () => {
+		const assistant = {
+			type: 'assistant',
+			message: {
+				content: [
+					{ type: 'text', text: 'Reading the file' },
+					{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'a.ts' } },
+				],
+			},
+		} as SDKMessage;
+		expect(getProgressEvents(assistant)).toEqual([
+			{ type: 'assistant_text', text: 'Reading the file' },
+			{
+				type: 'tool_use',
+				toolName: 'Read',
+				toolInput: { file_path: 'a.ts' },
+				toolUseId: 'toolu_1',
+			},
+		]);
+		expect(getProgressEvents(toolResult('toolu_1', [{ type: 'text', text: 'content' }]))).toEqual([
+			{ type: 'tool_result', toolUseId: 'toolu_1', isError: false, content: 'content' },
+		]);
+	});
+
+	it('reports the result and truncates long tool output', () => {
+		const result = {
+			type: 'result',
+			subtype: 'error_max_turns',
+			num_turns: 5,
+			duration_ms: 100,
+			total_cost_usd: 0.5,
+		} as SDKMessage;
+		expect(getProgressEvents(result)).toEqual([
+			{
+				type: 'result',
+				subtype: 'error_max_turns',
+				success: false,
+				result: null,
+				num_turns: 5,
+				duration_ms: 100,
+				total_cost_usd: 0.5,
+			},
+		]);
+		const [event] = getProgressEvents(toolResult('toolu_1', 'x'.repeat(2500)));
+		expect(event.content).toBe(`${'x'.repeat(2000)}... [truncated 500 characters]`);
+	});
+});
+
+describe('getToolCalls', () => {
+	it('pairs every tool call with its result', () => {
+		const calls = getToolCalls([
+			toolUse('toolu_1', 'Bash', { command: 'npm test' }),
+			toolUse('toolu_2', 'Write', { file_path: 'a.ts' }),
+			toolResult('toolu_1', 'failed', true),
+			toolResult('toolu_unknown', 'ignored'),
+		]);
+		expect(calls).toMatchObject([
+			{ id: 'toolu_1', name: 'Bash', result: 'failed', isError: true },
+			{ id: 'toolu_2', name: 'Write', result: null, isError: false },
+		]);
+	});
+});
+
+describe('summarizeToolCalls', () => {
+	it('lists the files and commands of the calls that ran', () => {
+		expect(
+			summarizeToolCalls([
+				toolCall('Read', { file_path: 'a.ts' }),
+				toolCall('Read', { file_path: 'a.ts' }),
+				toolCall('Edit', { file_path: 'b.ts' }),
+				toolCall('Write', { file_path: 'denied.ts' }, true),
+				toolCall('Bash', { command: 'npm test' }, true),
+				toolCall('Grep', { pattern: 'TODO' }),
+			]),
+		).toEqual({
+			toolCounts: { Read: 2, Edit: 1, Write: 1, Bash: 1, Grep: 1 },
+			filesRead: ['a.ts'],
+			filesWritten: ['b.ts'],
+			commands: ['npm test'],
+		});
+	});
+});
@@ -0,0 +1,80 @@
+import type { INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { buildToolRules, getPermissionRule, type ToolRuleParameters } from '../permissions';
+
+const node = { name: 'Claude Code', type: 'claudeCode', typeVersion: 1, parameters: {} } as INode;
+
+function getRuleError(rule: ToolRuleParameters): NodeOperationError | undefined {
+	try {
+		buildToolRules(node, [rule], 0);
+		return undefined;
+	} catch (error) {
+		return error as NodeOperationError;
+	}
+}
+
+describe('buildToolRules', () => {
+	it('splits rules into allowed and disallowed tools', () => {
+		expect(
+			buildToolRules(
+				node,
+				[
+					{ action: 'allow', tool: ' Bash ', pattern: ' git:* ' },
+					{ action: 'allow', tool: 'Read' },
+					{ action: 'deny', tool: 'Bash', pattern: 'rm -rf /' },
+					{ action: 'deny', tool: 'WebFetch', pattern: 'domain:example.com' },
+					{ action: 'deny', tool: 'mcp__github__create_issue', pattern: '' },
+				],
+				0,
+			),
+		).toEqual({
+			allow: ['Bash(git:*)', 'Read'],
+			deny: ['Bash(rm -rf /)', 'WebFetch(domain:example.com)', 'mcp__github__create_issue'],
+		});
+	});
+
+	it.each([
+		[{ tool: 'bash' }, 'unknown tool name format'],
+		[{ tool: 'mcp__github issues' }, 'unknown tool name format'],
+		[{ tool: 'Bash', pattern: 'npm test\nrm -rf /' }, 'line breaks are not allowed'],
+		[{ tool: 'mcp__github', pattern: 'repo:*' }, 'MCP tools do not take patterns'],
+		[{ tool: 'Bash', pattern: 'git:* status' }, '":*" is only allowed at the end'],
+		[{ tool: 'WebFetch', pattern: 'https://example.com' }, 'expected "domain:<host>"'],
+	])('rejects %j', (rule, message) => {
+		const error = getRuleError({ action: 'allow', ...rule });
+		expect(error).toBeInstanceOf(NodeOperationError);
+		expect(error?.message).toContain(message);
+		expect(error?.type).toBe('invalid_tool_rule');
+	});
+});
+
+describe('getPermissionRule', () => {
+	it('allows exactly the requested shell command', () => {
+		expect(
+			getPermissionRule({ toolName: 'Bash', toolInput: { command: 'npm test' }, toolUseId: '1' }),
+		).toBe('Bash(npm test)');
+	});
+
+	it('allows only the requested file for tools that write one', () => {
+		expect(
+			getPermissionRule({
+				toolName: 'Write',
+				toolInput: { file_path: '/app/src/[id].ts' },
+				toolUseId: '1',
+			}),
+		).toBe('Edit(//app/src/\\[id].ts)');
+		expect(
+			getPermissionRule({
+				toolName: 'NotebookEdit',
+				toolInput: { notebook_path: 'notes.ipynb' },
+				toolUseId: '1',
+			}),
+		).toBe('Edit(notes.ipynb)');
+	});
+
+	it('allows other tools by name', () => {
+		expect(
+			getPermissionRule({ toolName: 'WebSearch', toolInput: { query: 'n8n' }, toolUseId: '1' }),
+		).toBe('WebSearch');
+	});
+});
@@ -0,0 +1,264 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import {
+	checkAutoExecuteRule,
+	describeApprovedPlan,
+	findPlan,
+	findPlanRisks,
+	getPlanModeAllowedTools,
+	parsePlan,
+	toPlan,
+	toStepNumbers,
+	type Plan,
+} from '../plan';
+
+const PLAN = `# Add login rate limiting
+
+Limit failed logins per IP address.
+
+1. **Add a limiter** in \`src/auth/limiter.ts\`
+   Count failures per IP in memory.
+2. Use it in src/auth/login.ts
+3. Run npm install express-rate-limit
+`;
+
+// A planning run in which Claude tried the given tool calls and the CLI blocked them
+function createPlanRun(...toolCalls: Array<{ name: string; input: object }>): SDKMessage[] {
+	return toolCalls.flatMap(({ name, input }, index) => [
+		{
+			type: 'assistant',
+			message: { content: [{ type: 'tool_use', id: `toolu_${index}`, name, input }] },
+		},
+		{
+			type: 'user',
+			message: {
+				content: [
+					{
+						type: 'tool_result',
+						tool_use_id: `toolu_${index}`,
+						is_error: true,
+						content: `Permission to use ${name} has been denied.`,
+					},
+				],
+			},
+		},
+	]) as unknown as SDKMessage[];
+}
+
+describe('parsePlan', () => {
+	it('splits numbered steps with their details and files', () => {
+		const plan = parsePlan(PLAN);
+		expect(plan.summary).toBe('Limit failed logins per IP address.');
+		expect(plan.steps).toEqual([
+			{
+				index: 1,
+				title: 'Add a limiter in `src/auth/limiter.ts`',
+				details: 'Count failures per IP in memory.',
+				files: ['src/auth/limiter.ts'],
+			},
+			{
+				index: 2,
+				title: 'Use it in src/auth/login.ts',
+				details: '',
+				files: ['src/auth/login.ts'],
+			},
+			{
+				index: 3,
+				title: 'Run npm install express-rate-limit',
+				details: '',
+				files: [],
+			},
+		]);
+		expect(plan.files).toEqual(['src/auth/limiter.ts', 'src/auth/login.ts']);
+		expect(plan.risks).toEqual([]);
+		expect(plan.markdown).toBe(PLAN);
+	});
+
+	it('flags risks from the tool calls blocked while planning, not from the text', () => {
+		const plan = parsePlan(
+			PLAN,
+			createPlanRun({ name: 'Bash', input: { command: 'npm install express-rate-limit' } }),
+		);
+		expect(plan.risks).toEqual(['dependency_change']);
+	});
+
+	it('reads "Step N" headings', () => {
+		const plan = parsePlan('## Step 1: Write the migration\nAlter table users\n## Step 2: Deploy');
+		expect(plan.steps.map((step) => step.title)).toEqual(['Write the migration', 'Deploy']);
+	});
+
+	it('falls back to bullet points', () => {
+		expect(parsePlan('- Read the code\n- Write a test').steps.map((step) => step.title)).toEqual([
+			'Read the code',
+			'Write a test',
+		]);
+	});
+
+	it('does not take URLs or version numbers for files', () => {
+		expect(parsePlan('1. See `https://example.com/a.html` and bump `1.2.3`').files).toEqual([]);
+	});
+});
+
+describe('findPlan', () => {
+	it('returns the plan of the last ExitPlanMode call', () => {
+		const messages = [
+			{
+				type: 'assistant',
+				message: {
+					content: [
+						{ type: 'text', text: 'Here is my plan' },
+						{ type: 'tool_use', id: 'a', name: 'ExitPlanMode', input: { plan: 'first' } },
+					],
+				},
+			},
+			{
+				type: 'assistant',
+				message: {
+					content: [
+						{ type: 'tool_use', id: 'b', name: 'exit_plan_mode', input: { plan: 'second' } },
+					],
+				},
+			},
+		] as unknown as SDKMessage[];
+		expect(findPlan(messages)).toBe('second');
+	});
+
+	it('returns undefined when Claude never presented a plan', () => {
+		expect(findPlan([])).toBeUndefined();
+	});
+});
+
+describe('findPlanRisks', () => {
+	it('classifies blocked commands, edited files and MCP calls', () => {
+		const messages = createPlanRun(
+			{ name: 'Bash', input: { command: 'cd build && rm -rf dist' } },
+			{ name: 'Bash', input: { command: 'git push --force origin main' } },
+			{ name: 'Edit', input: { file_path: '/app/.env.production' } },
+			{ name: 'Write', input: { file_path: '/app/db/migrations/002_users.sql' } },
+			{ name: 'mcp__github__create_issue', input: { title: 'Bug' } },
+		);
+		expect(findPlanRisks(messages)).toEqual([
+			'config_change',
+			'database_change',
+			'deletes_files',
+			'external_request',
+			'git_history',
+		]);
+	});
+
+	it('ignores read-only commands, ordinary files and tools that were not blocked', () => {
+		const messages = createPlanRun(
+			{ name: 'Bash', input: { command: 'git log --oneline -5 && ls src' } },
+			{ name: 'Edit', input: { file_path: '/app/src/auth/login.ts' } },
+			{ name: 'Read', input: { file_path: '/app/package.json' } },
+		);
+		expect(findPlanRisks(messages)).toEqual([]);
+	});
+});
+
+describe('toPlan', () => {
+	it('accepts a plan object, its JSON or markdown', () => {
+		const plan = parsePlan(PLAN);
+		expect(toPlan(plan)).toBe(plan);
+		expect(toPlan(JSON.stringify(plan))).toEqual(plan);
+		expect(toPlan(PLAN)?.steps).toHaveLength(3);
+	});
+
+	it('rejects empty values and objects without steps', () => {
+		expect(toPlan('  ')).toBeUndefined();
+		expect(toPlan({ summary: 'no steps' })).toBeUndefined();
+		expect(toPlan(null)).toBeUndefined();
+	});
+});
+
+describe('toStepNumbers', () => {
+	it('reads lists and arrays, dropping anything that is not a step number', () => {
+		expect(toStepNumbers('2, 4,x, 0')).toEqual([2, 4]);
+		expect(toStepNumbers([1, '3'])).toEqual([1, 3]);
+		expect(toStepNumbers(undefined)).toEqual([]);
+	});
+});
+
+describe('describeApprovedPlan', () => {
+	it('lists the approved steps and names the skipped ones', () => {
+		expect(describeApprovedPlan(parsePlan(PLAN), [3])).toBe(
+			'Execute only these steps of the plan, in order:\n' +
+				'1. Add a limiter in `src/auth/limiter.ts`\nCount failures per IP in memory.\n' +
+				'2. Use it in src/auth/login.ts\n\n' +
+				'Do not carry out these steps, they were not approved:\n' +
+				'3. Run npm install express-rate-limit',
+		);
+	});
+
+	it('leaves out the skipped section when every step is approved', () => {
+		expect(describeApprovedPlan(parsePlan(PLAN), [])).not.toContain('Do not carry out');
+	});
+});
+
+describe('checkAutoExecuteRule', () => {
+	const createPlan = (files: string[], risks: string[] = [], stepCount = 1): Plan => ({
+		summary: '',
+		steps: Array.from({ length: stepCount }, (_, index) => ({
+			index: index + 1,
+			title: `Step ${index + 1}`,
+			details: '',
+			files: [],
+		})),
+		files,
+		risks,
+		markdown: '',
+	});
+
+	it('passes a small plan inside the allowed paths', () => {
+		expect(
+			checkAutoExecuteRule(createPlan(['./src/a.ts', 'src/lib/b.tsx', 'README.md']), {
+				maxSteps: 1,
+				allowedPaths: 'src/**/*.{ts,tsx}, *.md',
+			}),
+		).toEqual([]);
+	});
+
+	it('lists files outside the allowed paths', () => {
+		expect(
+			checkAutoExecuteRule(createPlan(['src/a.ts', 'src/a.js', 'docs/guide.md', 'test/a.ts']), {
+				allowedPaths: 'src/*.ts, *.md',
+			}),
+		).toEqual([
+			'The plan touches files outside the allowed paths: src/a.js, docs/guide.md, test/a.ts',
+		]);
+	});
+
+	it('matches ** across any number of directories and * within one', () => {
+		const plan = createPlan(['src/a/b/c.ts', 'src/a/c.ts']);
+		expect(checkAutoExecuteRule(plan, { allowedPaths: 'src/**/c.ts' })).toEqual([]);
+		expect(checkAutoExecuteRule(plan, { allowedPaths: 'src/*/c.ts' })).toEqual([
+			'The plan touches files outside the allowed paths: src/a/b/c.ts',
+		]);
+	});
+
+	it('ignores an empty path rule', () => {
+		expect(checkAutoExecuteRule(createPlan(['anywhere/x.ts']), { allowedPaths: ' ' })).toEqual([]);
+	});
+
+	it('rejects empty, long and risky plans unless risks are allowed', () => {
+		expect(checkAutoExecuteRule(createPlan([], [], 0), {})).toEqual(['The plan has no steps']);
+		expect(checkAutoExecuteRule(createPlan([], ['deployment'], 6), { maxSteps: 5 })).toEqual([
+			'The plan has 6 steps, more than 5',
+			'The plan is flagged as risky: deployment',
+		]);
+		expect(checkAutoExecuteRule(createPlan([], ['deployment']), { allowRisks: true })).toEqual([]);
+	});
+});
+
+describe('getPlanModeAllowedTools', () => {
+	it('drops writing tools, their patterns and MCP tools', () => {
+		expect(
+			getPlanModeAllowedTools([
+				'Read',
+				'Bash(git status)',
+				'Edit',
+				'Grep',
+				'mcp__github__create_issue',
+			]),
+		).toEqual(['Read', 'Grep']);
+	});
+});
@@ -0,0 +1,74 @@
+import type { INode } from 'n8n-workflow';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getWorkingDirectory, testProjectPath, validateProjectPath } from '../preflight';
+
+// The SDK is an ES module jest cannot load, and these tests never start a query
+jest.mock('@anthropic-ai/claude-code', () => ({ query: jest.fn() }));
+
+const node = { name: 'Claude Code', type: 'claudeCode', typeVersion: 1, parameters: {} } as INode;
+
+describe('validateProjectPath', () => {
+	let project: string;
+
+	beforeEach(() => {
+		project = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-test-'));
+		fs.writeFileSync(path.join(project, 'file.txt'), 'file\n');
+	});
+
+	afterEach(() => {
+		fs.rmSync(project, { recursive: true, force: true });
+	});
+
+	it('accepts a directory and rejects missing paths and files', () => {
+		expect(validateProjectPath(project)).toEqual({ valid: true });
+		expect(validateProjectPath(path.join(project, 'missing'))).toMatchObject({
+			valid: false,
+			error: expect.stringContaining('Project directory does not exist'),
+		});
+		expect(validateProjectPath(path.join(project, 'file.txt'))).toMatchObject({
+			valid: false,
+			error: expect.stringContaining('Project path is not a directory'),
+		});
+	});
+
+	it('resolves the working directory of a run', () => {
+		expect(getWorkingDirectory(node, '  ', 0)).toBeUndefined();
+		expect(getWorkingDirectory(node, ` ${project} `, 0)).toBe(path.resolve(project));
+		expect(() => getWorkingDirectory(node, path.join(project, 'missing'), 0)).toThrow(
+			'Project Path Error: Project directory does not exist',
+		);
+	});
+});
+
+describe('testProjectPath', () => {
+	let project: string;
+
+	beforeEach(() => {
+		project = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-test-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(project, { recursive: true, force: true });
+	});
+
+	it('stops after the path check when the directory is missing', async () => {
+		const result = await testProjectPath(path.join(project, 'missing'), { nodeMcpServers: [] });
+		expect(result).toMatchObject({
+			valid: false,
+			checks: [{ check: 'projectPath', status: 'fail' }],
+			summary: { pass: 0, warn: 0, fail: 1 },
+			success: false,
+		});
+	});
+
+	it('checks the project configuration', async () => {
+		fs.writeFileSync(path.join(project, '.mcp.json'), '{ not json');
+		const result = await testProjectPath(project, { nodeMcpServers: [] });
+		const checks = result.checks as Array<{ check: string; status: string }>;
+		expect(checks[0]).toMatchObject({ check: 'projectPath', status: 'pass' });
+		expect(checks.find((check) => check.check === 'mcpJson')).toMatchObject({ status: 'fail' });
+		expect(result.success).toBe(false);
+	}, 30000);
+});
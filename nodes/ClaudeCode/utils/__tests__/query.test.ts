@@ -0,0 +1,112 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { INode } from 'n8n-workflow';
+import {
+	checkSessionId,
+	getLastQuery,
+	getResult,
+	getRunMetrics,
+	getSessionId,
+	getStopReason,
+} from '../query';
+
+// The SDK is an ES module jest cannot load, and these tests never start the CLI
+jest.mock('@anthropic-ai/claude-code', () => ({ query: jest.fn() }));
+
+const init = (sessionId: string) =>
+	({ type: 'system', subtype: 'init', session_id: sessionId }) as SDKMessage;
+
+const result = (fields: object) =>
+	({
+		type: 'result',
+		subtype: 'success',
+		session_id: 'session-1',
+		is_error: false,
+		result: 'Done',
+		duration_ms: 1000,
+		num_turns: 2,
+		total_cost_usd: 0.1,
+		usage: { input_tokens: 100, output_tokens: 10, service_tier: 'standard' },
+		...fields,
+	}) as unknown as SDKMessage;
+
+describe('getStopReason', () => {
+	it('tells completed, max turns and failed runs apart', () => {
+		expect(getStopReason([result({})])).toBe('completed');
+		expect(getStopReason([result({ subtype: 'error_max_turns' })])).toBe('max_turns');
+		expect(getStopReason([result({ subtype: 'error_during_execution' })])).toBe('error');
+		expect(getStopReason([result({ is_error: true })])).toBe('error');
+	});
+
+	it('reads the result of the last query', () => {
+		expect(getStopReason([result({ is_error: true }), init('session-1'), result({})])).toBe(
+			'completed',
+		);
+	});
+
+	it('reports runs stopped before a result as incomplete', () => {
+		expect(getStopReason([init('session-1')])).toBe('incomplete');
+	});
+});
+
+describe('getResult', () => {
+	it('returns the answer of successful runs only', () => {
+		expect(getResult([result({})])).toBe('Done');
+		expect(getResult([result({ subtype: 'error_max_turns' })])).toBeNull();
+	});
+});
+
+describe('getSessionId', () => {
+	it('prefers the result over the init message', () => {
+		expect(getSessionId([init('session-1'), result({ session_id: 'session-2' })])).toBe(
+			'session-2',
+		);
+		expect(getSessionId([init('session-1')])).toBe('session-1');
+		expect(getSessionId([])).toBeNull();
+	});
+});
+
+describe('getLastQuery', () => {
+	it('returns the messages from the last init message on', () => {
+		const first = [init('session-1'), result({ subtype: 'error_max_turns' })];
+		const last = [init('session-1'), result({})];
+		expect(getLastQuery([...first, ...last])).toEqual(last);
+		expect(getLastQuery(first)).toEqual(first);
+	});
+
+	it('returns messages without an init message as they are', () => {
+		const turn = [result({})];
+		expect(getLastQuery(turn)).toBe(turn);
+	});
+});
+
+describe('getRunMetrics', () => {
+	it('adds up the results of all queries', () => {
+		expect(
+			getRunMetrics([
+				init('session-1'),
+				result({ subtype: 'error_max_turns' }),
+				init('session-1'),
+				result({ usage: { input_tokens: 50, cache_read_input_tokens: 5 } }),
+			]),
+		).toEqual({
+			duration_ms: 2000,
+			num_turns: 4,
+			total_cost_usd: 0.2,
+			usage: { input_tokens: 150, output_tokens: 10, cache_read_input_tokens: 5 },
+		});
+	});
+
+	it('returns null without a result', () => {
+		expect(getRunMetrics([init('session-1')])).toBeNull();
+	});
+});
+
+describe('checkSessionId', () => {
+	const node = { name: 'Claude Code', type: 'claudeCode', typeVersion: 1, parameters: {} } as INode;
+
+	it('accepts UUIDs only', () => {
+		expect(() => checkSessionId(node, '550e8400-e29b-41d4-a716-446655440000', 0)).not.toThrow();
+		expect(() => checkSessionId(node, '', 0)).toThrow('Session ID is required');
+		expect(() => checkSessionId(node, '../session', 0)).toThrow('Invalid Session ID: ../session');
+	});
+});
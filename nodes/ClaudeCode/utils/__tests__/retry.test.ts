@@ -0,0 +1,204 @@
+import { query, type SDKMessage } from '@anthropic-ai/claude-code';
+import type { INode } from 'n8n-workflow';
+import type { QueryOptions } from '../query';
+import {
+	classifyError,
+	getQueryError,
+	getResultErrorType,
+	isRetryable,
+	runQueryWithRetry,
+} from '../retry';
+
+// The SDK is an ES module jest cannot load, and these tests never start the CLI
+jest.mock('@anthropic-ai/claude-code', () => ({ query: jest.fn() }));
+
+describe('classifyError', () => {
+	it.each([
+		['Failed to spawn Claude Code process: spawn claude ENOENT', 'cli_missing'],
+		['API Error: 429 {"type":"rate_limit_error"}', 'rate_limit'],
+		['API Error: 529 {"type":"overloaded_error"}', 'overloaded'],
+		['read ECONNRESET', 'overloaded'],
+		['Invalid API key · Please run /login', 'auth'],
+		['Request timed out', 'timeout'],
+		['No conversation found with session ID: 123', 'session_not_found'],
+		['Claude Code process exited with code 1', 'process_crashed'],
+		['Something unexpected', 'execution_error'],
+	])('classifies "%s" as %s', (message, type) => {
+		expect(classifyError(new Error(message))).toBe(type);
+	});
+
+	it('reads the CLI output as well as the error', () => {
+		expect(
+			classifyError(new Error('Claude Code process exited with code 1'), 'API Error: 429 Too Many'),
+		).toBe('rate_limit');
+	});
+
+	it('treats aborted runs as timeouts', () => {
+		const error = new Error('The operation was aborted');
+		error.name = 'AbortError';
+		expect(classifyError(error)).toBe('timeout');
+	});
+
+	it('accepts values that are not errors', () => {
+		expect(classifyError('overloaded')).toBe('overloaded');
+	});
+});
+
+describe('getResultErrorType', () => {
+	const result = (fields: object) => [{ type: 'result', ...fields }] as unknown as SDKMessage[];
+
+	it('reads the subtype of a failed result', () => {
+		expect(getResultErrorType(result({ subtype: 'error_max_turns' }))).toBe('max_turns');
+		expect(getResultErrorType(result({ subtype: 'error_during_execution' }))).toBe('tool_error');
+	});
+
+	it('classifies API errors the CLI reported as a result', () => {
+		expect(
+			getResultErrorType(
+				result({ subtype: 'success', is_error: true, result: 'API Error: 529 Overloaded' }),
+			),
+		).toBe('overloaded');
+	});
+
+	it('returns undefined for successful and missing results', () => {
+		expect(getResultErrorType(result({ subtype: 'success', is_error: false }))).toBeUndefined();
+		expect(getResultErrorType([])).toBeUndefined();
+	});
+});
+
+describe('isRetryable', () => {
+	it('retries only transient errors', () => {
+		expect(isRetryable('overloaded')).toBe(true);
+		expect(isRetryable('process_crashed')).toBe(true);
+		expect(isRetryable('rate_limit')).toBe(true);
+		expect(isRetryable('auth')).toBe(false);
+		expect(isRetryable('timeout')).toBe(false);
+	});
+});
+
+describe('runQueryWithRetry', () => {
+	const mockedQuery = query as jest.MockedFunction<typeof query>;
+	const answer = { type: 'assistant', session_id: 'session-1', message: { content: [] } };
+	const success = { type: 'result', subtype: 'success', session_id: 'session-1', result: 'Done' };
+
+	// Each attempt streams its messages, then fails with crash if one is given
+	function mockAttempts(...attempts: Array<{ messages: object[]; crash?: string }>) {
+		for (const { messages, crash } of attempts) {
+			mockedQuery.mockImplementationOnce((() =>
+				(async function* () {
+					yield* messages;
+					if (crash) throw new Error(crash);
+				})()) as unknown as typeof query);
+		}
+	}
+
+	function createOptions(): QueryOptions {
+		return {
+			prompt: 'Fix the tests',
+			options: {
+				abortController: new AbortController(),
+				maxTurns: 5,
+				permissionMode: 'default',
+				model: 'sonnet',
+			},
+		};
+	}
+
+	beforeEach(() => mockedQuery.mockReset());
+
+	it('starts over when the CLI crashed before Claude answered', async () => {
+		mockAttempts(
+			{ messages: [], crash: 'Claude Code process exited with code 1' },
+			{ messages: [answer, success] },
+		);
+		const onRetry = jest.fn();
+		const messages = await runQueryWithRetry(
+			createOptions(),
+			{},
+			{ maxRetries: 2, initialDelay: 0 },
+			undefined,
+			undefined,
+			onRetry,
+		);
+		expect(messages).toEqual([answer, success]);
+		expect(onRetry).toHaveBeenCalledWith(1, 'process_crashed', 0);
+		expect(mockedQuery.mock.calls[1][0].prompt).toBe('Fix the tests');
+		expect(mockedQuery.mock.calls[1][0].options?.resume).toBeUndefined();
+	});
+
+	it('resumes the session when Claude had already answered', async () => {
+		mockAttempts(
+			{ messages: [answer], crash: 'API Error: 529 overloaded_error' },
+			{ messages: [success] },
+		);
+		await runQueryWithRetry(createOptions(), {}, { maxRetries: 2, initialDelay: 0 });
+		expect(mockedQuery.mock.calls[1][0].prompt).toMatch(/^The previous attempt was interrupted/);
+		expect(mockedQuery.mock.calls[1][0].options?.resume).toBe('session-1');
+	});
+
+	it('keeps the messages of failed attempts', async () => {
+		const toolUse = {
+			type: 'assistant',
+			session_id: 'session-1',
+			message: { content: [{ type: 'tool_use', id: 'tool-1', name: 'Bash', input: {} }] },
+		};
+		const failed = { ...success, subtype: 'success', is_error: true, result: 'API Error: 529' };
+		mockAttempts(
+			{ messages: [toolUse], crash: 'Claude Code process exited with code 1' },
+			{ messages: [failed] },
+			{ messages: [success] },
+		);
+		const messages = await runQueryWithRetry(
+			createOptions(),
+			{},
+			{ maxRetries: 2, initialDelay: 0 },
+		);
+		expect(messages).toEqual([toolUse, failed, success]);
+	});
+
+	it('gives up after the last retry or on errors that are not transient', async () => {
+		mockAttempts(
+			{ messages: [], crash: 'API Error: 429 rate_limit_error' },
+			{ messages: [], crash: 'API Error: 429 rate_limit_error' },
+		);
+		await expect(
+			runQueryWithRetry(createOptions(), {}, { maxRetries: 1, initialDelay: 0 }),
+		).rejects.toThrow('429');
+
+		mockAttempts({ messages: [], crash: 'API Error: 401 authentication_error' });
+		await expect(
+			runQueryWithRetry(createOptions(), {}, { maxRetries: 2, initialDelay: 0 }),
+		).rejects.toThrow('401');
+		expect(mockedQuery).toHaveBeenCalledTimes(3);
+	});
+});
+
+describe('getQueryError', () => {
+	const node = { name: 'Claude Code', type: 'claudeCode', typeVersion: 1, parameters: {} } as INode;
+
+	it('explains a session the CLI does not know', () => {
+		const error = getQueryError(
+			node,
+			new Error('Claude Code process exited with code 1'),
+			'No conversation found with session ID: 550e8400',
+			'550e8400',
+			0,
+		);
+		expect(error).toMatchObject({
+			message: 'Session not found or expired: 550e8400',
+			type: 'session_not_found',
+		});
+	});
+
+	it('classifies other errors and passes aborts on', () => {
+		expect(getQueryError(node, new Error('API Error: 429'), 'rate limited\n', '', 0)).toMatchObject(
+			{
+				message: 'Claude Code execution failed: API Error: 429',
+				type: 'rate_limit',
+				description: 'rate limited',
+			},
+		);
+		const abort = Object.assign(new Error('aborted'), { name: 'AbortError' });
+		expect(getQueryError(node, abort, '', '', 0)).toBe(abort);
+	});
+});
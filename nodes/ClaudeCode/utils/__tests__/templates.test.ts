@@ -0,0 +1,68 @@
+import type { IDataObject, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { fillPromptTemplate, type PromptVariable } from '../templates';
+
+const node = { name: 'Claude Code', type: 'claudeCode', typeVersion: 1, parameters: {} } as INode;
+
+const issue: IDataObject = {
+	issue: { title: 'Login fails', number: 42 },
+	labels: [{ name: 'bug' }, { name: 'auth' }],
+	body: '',
+};
+
+function fill(template: string, variables: PromptVariable[], json = issue): string {
+	return fillPromptTemplate(node, template, variables, json, 0);
+}
+
+describe('fillPromptTemplate', () => {
+	it('fills placeholders from nested fields and array indexes', () => {
+		expect(
+			fill('Fix #{number}: {title} ({label})', [
+				{ name: 'number', field: 'issue.number' },
+				{ name: 'title', field: 'issue.title' },
+				{ name: 'label', field: 'labels[1].name' },
+			]),
+		).toBe('Fix #42: Login fails (auth)');
+	});
+
+	it('writes objects and arrays as JSON', () => {
+		expect(fill('Labels: {labels}', [{ name: 'labels', field: 'labels' }])).toBe(
+			'Labels: [{"name":"bug"},{"name":"auth"}]',
+		);
+	});
+
+	it('tries the fields of a variable in order, skipping empty values', () => {
+		expect(fill('{text}', [{ name: 'text', field: 'body, description, issue.title' }])).toBe(
+			'Login fails',
+		);
+	});
+
+	it('uses the default value when no field has a value', () => {
+		expect(
+			fill('Priority: {priority}', [
+				{ name: 'priority', field: 'priority', defaultValue: 'normal' },
+			]),
+		).toBe('Priority: normal');
+	});
+
+	it('leaves braces alone that do not name a variable', () => {
+		expect(
+			fill('Return {"ok": true} for {title} and keep {unknown}', [
+				{ name: 'title', field: 'issue.title' },
+			]),
+		).toBe('Return {"ok": true} for Login fails and keep {unknown}');
+	});
+
+	it('returns the template unchanged without variables', () => {
+		expect(fill('Use {title}', [])).toBe('Use {title}');
+	});
+
+	it('fails for a required variable without a value', () => {
+		expect(() => fill('{author}', [{ name: 'author', field: 'user.login, author' }])).toThrow(
+			NodeOperationError,
+		);
+		expect(() => fill('{author}', [{ name: 'author', field: 'user.login, author' }])).toThrow(
+			'No value for prompt variable "author"',
+		);
+	});
+});
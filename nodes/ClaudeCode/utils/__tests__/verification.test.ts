@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describeVerificationFailure, runVerification } from '../verification';
+
+// Killed orphans stay zombies until init reaps them, which does not happen in every container
+function isRunning(pid: number): boolean {
+	try {
+		return fs.readFileSync(`/proc/${pid}/stat`, 'utf8').split(' ')[2] !== 'Z';
+	} catch {
+		return false;
+	}
+}
+
+describe('runVerification', () => {
+	let directory: string;
+
+	beforeEach(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-test-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('collects the output and exit code of the command', async () => {
+		const result = await runVerification('echo passed; echo failed >&2; exit 3', directory, 10);
+		expect(result).toMatchObject({ exitCode: 3, output: 'passed\nfailed\n', timedOut: false });
+	});
+
+	it('kills a command that runs longer than the timeout', async () => {
+		const result = await runVerification('sleep 30', directory, 0.2);
+		expect(result).toMatchObject({ exitCode: null, timedOut: true });
+	});
+
+	const onLinux = process.platform === 'linux' ? it : it.skip;
+	onLinux('kills the command and the processes it started when the run is stopped', async () => {
+		const controller = new AbortController();
+		const pidFile = path.join(directory, 'pid');
+		const verification = runVerification(
+			`sleep 30 & echo $! > ${pidFile}; wait`,
+			directory,
+			10,
+			controller.signal,
+		);
+		while (!fs.existsSync(pidFile) || !fs.readFileSync(pidFile, 'utf8').trim()) {
+			await new Promise((resolve) => setTimeout(resolve, 20));
+		}
+		const pid = Number(fs.readFileSync(pidFile, 'utf8'));
+
+		controller.abort();
+		await expect(verification).rejects.toMatchObject({ name: 'AbortError' });
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		expect(isRunning(pid)).toBe(false);
+	});
+
+	it('does not start the command once the run was stopped', async () => {
+		const controller = new AbortController();
+		controller.abort();
+		await expect(
+			runVerification(`touch ${path.join(directory, 'ran')}`, directory, 10, controller.signal),
+		).rejects.toMatchObject({ name: 'AbortError' });
+		expect(fs.existsSync(path.join(directory, 'ran'))).toBe(false);
+	});
+});
+
+describe('describeVerificationFailure', () => {
+	it('hands the exit code and output back to the session', () => {
+		const prompt = describeVerificationFailure('npm test', {
+			exitCode: 1,
+			output: '1 failing\n',
+			timedOut: false,
+			durationMs: 10,
+		});
+		expect(prompt).toContain('The verification command `npm test` failed with exit code 1.');
+		expect(prompt).toContain('```\n1 failing\n```');
+	});
+});
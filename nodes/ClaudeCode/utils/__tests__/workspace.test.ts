@@ -0,0 +1,126 @@
+import type { INode } from 'n8n-workflow';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	checkWorkspaceOptions,
+	createWorkspace,
+	getWorkspaceChanges,
+	removeWorkspace,
+} from '../workspace';
+
+const node = { name: 'Claude Code', type: 'claudeCode', typeVersion: 1, parameters: {} } as INode;
+
+function git(cwd: string, ...args: string[]) {
+	execFileSync(
+		'git',
+		[
+			'-c',
+			'user.name=test',
+			'-c',
+			'user.email=test@localhost',
+			'-c',
+			'commit.gpgsign=false',
+			...args,
+		],
+		{ cwd, stdio: 'ignore' },
+	);
+}
+
+describe('createWorkspace', () => {
+	let project: string;
+
+	beforeEach(() => {
+		project = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-test-'));
+		fs.writeFileSync(path.join(project, 'index.js'), 'one\n');
+		fs.mkdirSync(path.join(project, 'node_modules', 'lib'), { recursive: true });
+		fs.writeFileSync(path.join(project, 'node_modules', 'lib', 'index.js'), 'lib\n');
+		git(project, 'init', '--quiet');
+		git(project, 'add', 'index.js');
+		git(project, 'commit', '--quiet', '-m', 'initial');
+	});
+
+	afterEach(() => {
+		fs.rmSync(project, { recursive: true, force: true });
+	});
+
+	it('copies the project without .git and node_modules and reports the changes', async () => {
+		const workspace = await createWorkspace(node, 'copy', project, 0);
+		try {
+			expect(fs.readdirSync(workspace.path)).toEqual(['index.js']);
+			fs.writeFileSync(path.join(workspace.path, 'index.js'), 'two\n');
+			fs.writeFileSync(path.join(workspace.path, 'new.js'), 'new\n');
+
+			const changes = await getWorkspaceChanges(workspace);
+			expect(changes.changedFiles).toEqual([
+				{ status: 'M', path: 'index.js' },
+				{ status: 'A', path: 'new.js' },
+			]);
+			expect(fs.readFileSync(path.join(project, 'index.js'), 'utf8')).toBe('one\n');
+		} finally {
+			await removeWorkspace(workspace);
+		}
+		expect(fs.existsSync(workspace.root!)).toBe(false);
+	});
+
+	it('checks out the current commit in a worktree and removes it again', async () => {
+		fs.writeFileSync(path.join(project, 'index.js'), 'uncommitted\n');
+		const workspace = await createWorkspace(node, 'worktree', project, 0);
+		try {
+			expect(fs.readFileSync(path.join(workspace.path, 'index.js'), 'utf8')).toBe('one\n');
+		} finally {
+			await removeWorkspace(workspace);
+		}
+		expect(fs.existsSync(workspace.root!)).toBe(false);
+		expect(execFileSync('git', ['worktree', 'list'], { cwd: project }).toString()).not.toContain(
+			workspace.root!,
+		);
+	});
+
+	it('rejects worktrees outside a git repository', async () => {
+		fs.rmSync(path.join(project, '.git'), { recursive: true });
+		await expect(createWorkspace(node, 'worktree', project, 0)).rejects.toThrow(
+			'Project Path is not a git repository',
+		);
+	});
+
+	it('runs in place in the Project Path itself', async () => {
+		expect(await createWorkspace(node, 'inPlace', project, 0)).toEqual({
+			mode: 'inPlace',
+			sourcePath: project,
+			path: project,
+		});
+	});
+});
+
+describe('checkWorkspaceOptions', () => {
+	const options = { operation: 'query', git: {}, hasAgentFiles: false };
+
+	it('accepts the options each mode supports', () => {
+		expect(() =>
+			checkWorkspaceOptions(node, 'inPlace', { ...options, resume: 'session-1' }, 0),
+		).not.toThrow();
+		expect(() =>
+			checkWorkspaceOptions(node, 'copy', { ...options, hasAgentFiles: true }, 0),
+		).not.toThrow();
+		expect(() =>
+			checkWorkspaceOptions(
+				node,
+				'worktree',
+				{ ...options, git: { branch: 'fix', commit: true } },
+				0,
+			),
+		).not.toThrow();
+	});
+
+	it.each([
+		['inPlace', { hasAgentFiles: true }, 'Subagents and slash commands need an isolated workspace'],
+		['copy', { resume: 'session-1' }, 'Sessions cannot be resumed in an isolated workspace'],
+		['worktree', { operation: 'plan' }, 'can only be executed by Auto-Execute Plan'],
+		['copy', { git: { trackChanges: true } }, 'Git options are not available with Temporary Copy'],
+		['worktree', { git: { commit: true } }, 'Commit Changes in a Git Worktree needs a Branch'],
+	] as const)('rejects %s with %j', (mode, changes, message) => {
+		expect(() => checkWorkspaceOptions(node, mode, { ...options, ...changes }, 0)).toThrow(message);
+	});
+});
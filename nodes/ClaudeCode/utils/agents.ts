@@ -0,0 +1,145 @@
+import type { INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface SubagentParameters {
+	name: string;
+	description: string;
+	systemPrompt?: string;
+	tools?: string[];
+	model?: string;
+}
+
+export interface SlashCommandParameters {
+	name: string;
+	description?: string;
+	prompt: string;
+}
+
+// Subagent and command names become file names and must be valid CLI identifiers
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+function validateName(node: INode, kind: string, name: string, itemIndex: number) {
+	if (!NAME_PATTERN.test(name)) {
+		throw new NodeOperationError(node, `Invalid ${kind} name "${name}"`, {
+			itemIndex,
+			type: 'invalid_configuration',
+			description: 'Use lowercase letters, digits and hyphens, e.g. test-writer.',
+		});
+	}
+}
+
+// Keeps frontmatter values on one line
+function toFrontmatterValue(value: string): string {
+	return JSON.stringify(value.replace(/\s*\n\s*/g, ' ').trim());
+}
+
+// Where the CLI looks up the project's subagents and slash commands, below the working directory
+const AGENT_FOLDERS = {
+	subagent: path.join('.claude', 'agents'),
+	command: path.join('.claude', 'commands'),
+};
+
+export interface AgentFile {
+	// Relative to the working directory
+	path: string;
+	// The project's own file of the same name, put back after the run
+	previousContent: string | null;
+}
+
+export function getConfigDirectory(): string {
+	return process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude');
+}
+
+// Where the CLI keeps logins, user-scoped MCP servers and per-project state
+export function getGlobalConfigFile(): string {
+	const legacyConfig = path.join(getConfigDirectory(), '.config.json');
+	return fs.existsSync(legacyConfig)
+		? legacyConfig
+		: path.join(process.env.CLAUDE_CONFIG_DIR || os.homedir(), '.claude.json');
+}
+
+function writeAgentFile(cwd: string, relativePath: string, content: string): AgentFile {
+	const file = path.join(cwd, relativePath);
+	const previousContent = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : null;
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.writeFileSync(file, content);
+	return { path: relativePath, previousContent };
+}
+
+/**
+ * Writes the node's subagents and slash commands to the .claude folder of the working
+ * directory, where the CLI finds project agents and commands. Only used in isolated
+ * workspaces, so neither the project nor the user's Claude config is changed. A project
+ * agent or command of the same name is replaced for the run.
+ */
+export function writeAgentFiles(
+	node: INode,
+	cwd: string,
+	subagents: SubagentParameters[],
+	commands: SlashCommandParameters[],
+	itemIndex: number,
+): AgentFile[] {
+	for (const subagent of subagents) validateName(node, 'subagent', subagent.name, itemIndex);
+	for (const command of commands) validateName(node, 'slash command', command.name, itemIndex);
+
+	const files: AgentFile[] = [];
+	try {
+		for (const subagent of subagents) {
+			const frontmatter = [
+				`name: ${subagent.name}`,
+				`description: ${toFrontmatterValue(subagent.description)}`,
+				...(subagent.tools?.length ? [`tools: ${subagent.tools.join(', ')}`] : []),
+				...(subagent.model && subagent.model !== 'inherit' ? [`model: ${subagent.model}`] : []),
+			];
+			files.push(
+				writeAgentFile(
+					cwd,
+					path.join(AGENT_FOLDERS.subagent, `${subagent.name}.md`),
+					`---\n${frontmatter.join('\n')}\n---\n\n${subagent.systemPrompt ?? ''}\n`,
+				),
+			);
+		}
+
+		for (const command of commands) {
+			const frontmatter = command.description
+				? `---\ndescription: ${toFrontmatterValue(command.description)}\n---\n\n`
+				: '';
+			files.push(
+				writeAgentFile(
+					cwd,
+					path.join(AGENT_FOLDERS.command, `${command.name}.md`),
+					`${frontmatter}${command.prompt}\n`,
+				),
+			);
+		}
+	} catch (error) {
+		removeAgentFiles(cwd, files);
+		throw error;
+	}
+	return files;
+}
+
+/**
+ * Removes the files of writeAgentFiles() and puts back the project's own, so they never
+ * end up in commits, diffs or archives. Folders left empty are removed too.
+ */
+export function removeAgentFiles(cwd: string, files: AgentFile[]) {
+	for (const { path: relativePath, previousContent } of files) {
+		const file = path.join(cwd, relativePath);
+		if (previousContent === null) {
+			fs.rmSync(file, { force: true });
+		} else {
+			fs.writeFileSync(file, previousContent);
+		}
+	}
+	for (const folder of [...Object.values(AGENT_FOLDERS), '.claude']) {
+		try {
+			fs.rmdirSync(path.join(cwd, folder));
+		} catch {
+			// Not empty, or never created
+		}
+	}
+}
@@ -0,0 +1,212 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { IBinaryKeyData, IDataObject } from 'n8n-workflow';
+import type { AgentFile } from './agents';
+import { removeAttachments } from './attachments';
+import type { BudgetLimits, RunUsage } from './budget';
+import type { GitRun } from './git';
+import type { JsonSchema } from './jsonSchema';
+import type { PermissionRequest } from './permissions';
+import type { Plan } from './plan';
+import type { QueryOptions } from './query';
+import type { RetryOptions } from './retry';
+import type { VerificationOptions, VerificationRound } from './verification';
+import { removeWorkspace, type Workspace } from './workspace';
+
+/**
+ * The settings and progress of an item's run that the steps after a query need. A run
+ * waiting for a tool approval is stored with it, so the resumed session goes through the
+ * same steps. Secrets are never part of it.
+ */
+export interface RunState {
+	itemIndex: number;
+	operation: string;
+	outputFormat: string;
+	jsonSchema?: JsonSchema;
+	jsonMaxAttempts: number;
+	// Seconds each query may take
+	timeout: number;
+	maxTurns: number;
+	cwd: string;
+	retryOptions: RetryOptions;
+	budgetLimits: BudgetLimits;
+	usage: RunUsage;
+	// Messages of every query so far, such as continuations, repairs and JSON retries
+	messages: SDKMessage[];
+	autoContinue: number;
+	autoContinueMaxTurns?: number;
+	autoContinuePrompt?: string;
+	continuations: number;
+	totalTurns: number;
+	plan?: Plan;
+	autoExecute?: IDataObject;
+	verification: VerificationOptions;
+	verificationRounds: VerificationRound[];
+	git?: GitRun;
+	workspace?: Workspace;
+	workspaceOutput: string;
+	attachmentDirectory?: string;
+	// Subagents and slash commands written into the workspace, removed before the output
+	agentFiles?: AgentFile[];
+	outputFiles?: { globs: string; snapshot: Record<string, string> };
+	debug: boolean;
+	// The debug trace so far, saved with DebugTrace.toJSON()
+	debugTrace?: IDataObject;
+}
+
+// Query options without the abort controller, callbacks and MCP servers, whose secrets are read again on resume
+export type StoredQueryOptions = Omit<
+	QueryOptions['options'],
+	'abortController' | 'mcpServers' | 'stderr'
+>;
+
+export interface PendingApproval {
+	sessionId: string;
+	request: PermissionRequest;
+	options: StoredQueryOptions;
+	run: RunState;
+}
+
+export interface ApprovalState {
+	// When the wait times out, null if it waits indefinitely
+	expiresAt: number | null;
+	executionBudgetUsd?: number;
+	executionCostUsd: number;
+	completed: Array<{ itemIndex: number; json: IDataObject; binary?: IBinaryKeyData }>;
+	pending: PendingApproval[];
+}
+
+// Where the node's static data keeps the states, by execution ID
+const STATIC_DATA_KEY = 'approvals';
+
+function getStates(staticData: IDataObject): Record<string, ApprovalState> {
+	staticData[STATIC_DATA_KEY] ??= {};
+	return staticData[STATIC_DATA_KEY] as Record<string, ApprovalState>;
+}
+
+async function removeRunFiles(state: ApprovalState) {
+	for (const { run } of state.pending) {
+		if (run.workspace) {
+			await removeWorkspace(run.workspace);
+		}
+		if (run.attachmentDirectory) {
+			removeAttachments(run.attachmentDirectory);
+		}
+	}
+}
+
+/**
+ * Keeps the state of a pending approval in the node's static data, which n8n stores with
+ * the workflow, so whichever instance receives the decision finds it.
+ */
+export function saveApprovalState(
+	staticData: IDataObject,
+	executionId: string,
+	state: ApprovalState,
+) {
+	// A copy, so later changes to the runs never reach the stored state
+	getStates(staticData)[executionId] = JSON.parse(JSON.stringify(state)) as ApprovalState;
+}
+
+export function getApprovalState(
+	staticData: IDataObject,
+	executionId: string,
+): ApprovalState | undefined {
+	return getStates(staticData)[executionId];
+}
+
+/**
+ * Deletes the state of an approval that was decided, so it is resumed only once.
+ */
+export function removeApprovalState(staticData: IDataObject, executionId: string) {
+	delete getStates(staticData)[executionId];
+}
+
+/**
+ * Deletes the state of an approval that will never be decided, with the files of its runs.
+ */
+export async function discardApprovalState(staticData: IDataObject, executionId: string) {
+	const state = getApprovalState(staticData, executionId);
+	removeApprovalState(staticData, executionId);
+	if (state) {
+		await removeRunFiles(state);
+	}
+}
+
+/**
+ * Deletes approvals whose wait timed out, together with the workspaces and attachments
+ * of their runs. n8n passes the input through when a wait times out without running the
+ * node again, so this is done whenever the node runs or receives a decision.
+ */
+export async function removeExpiredApprovals(staticData: IDataObject) {
+	for (const [executionId, state] of Object.entries(getStates(staticData))) {
+		if (state.expiresAt === null || state.expiresAt > Date.now()) continue;
+		removeApprovalState(staticData, executionId);
+		try {
+			await removeRunFiles(state);
+		} catch {
+			// Files another instance created are not there, and failing here would fail the run that cleans up
+		}
+	}
+}
+
+export interface ApprovalDecision {
+	approved: boolean;
+	reason: string;
+}
+
+function isApproved(value: unknown): boolean {
+	if (value === true || value === 'true') {
+		return true;
+	}
+	if (value === false || value === 'false') {
+		return false;
+	}
+	throw new Error('"approved" must be true or false');
+}
+
+/**
+ * Reads the decision for each pending tool call from a resume request. A request decides
+ * one call with approved, message and toolUseId (which may be left out while a single call
+ * is pending), or several with a decisions list of such objects. Calls without a decision
+ * are denied. Throws when the request decides nothing it could apply.
+ */
+export function getApprovalDecisions(
+	pending: PendingApproval[],
+	body: IDataObject,
+	query: IDataObject,
+): Map<string, ApprovalDecision> {
+	const entries = Array.isArray(body.decisions)
+		? (body.decisions as IDataObject[])
+		: [
+				{
+					toolUseId: body.toolUseId ?? query.toolUseId,
+					approved: body.approved ?? query.approved,
+					message: body.message ?? query.message,
+				},
+			];
+	const pendingIds = pending.map(({ request }) => request.toolUseId);
+
+	const decisions = new Map<string, ApprovalDecision>();
+	for (const entry of entries) {
+		let toolUseId = entry?.toolUseId as string | undefined;
+		if (toolUseId === undefined) {
+			if (pendingIds.length > 1 || Array.isArray(body.decisions)) {
+				throw new Error(
+					`${pendingIds.length} tool calls are pending, name each one with its "toolUseId"`,
+				);
+			}
+			toolUseId = pendingIds[0];
+		}
+		if (!pendingIds.includes(toolUseId)) {
+			throw new Error(`No tool call "${toolUseId}" is pending`);
+		}
+		decisions.set(toolUseId, {
+			approved: isApproved(entry.approved),
+			reason: String(entry.message ?? '').trim(),
+		});
+	}
+	if (decisions.size === 0) {
+		throw new Error('The request contains no decision');
+	}
+	return decisions;
+}
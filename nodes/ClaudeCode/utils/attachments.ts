@@ -0,0 +1,171 @@
+import type { SDKUserMessage } from '@anthropic-ai/claude-code';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getFileSnapshot } from './files';
+
+// Image types the API accepts as image content blocks, and its size limit per image
+const IMAGE_MIME_TYPES = ['image/gif', 'image/jpeg', 'image/png', 'image/webp'];
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Folder in the working directory that attachments are written to, removed after the run
+export const ATTACHMENT_FOLDER = '.n8n-attachments';
+
+export type AttachmentLocation = 'scratch' | 'workingDirectory';
+
+export interface AttachmentOptions {
+	inputProperties?: string;
+	location?: AttachmentLocation;
+	sendImages?: boolean;
+	outputFiles?: string;
+}
+
+export interface AttachmentFile {
+	property: string;
+	fileName?: string;
+	mimeType: string;
+	data: Buffer;
+}
+
+export interface Attachment {
+	property: string;
+	path: string;
+	mimeType: string;
+	size: number;
+}
+
+interface ImageBlock {
+	type: 'image';
+	source: { type: 'base64'; media_type: string; data: string };
+}
+
+/**
+ * Splits "data, screenshot" into binary property names.
+ */
+export function getAttachmentProperties(options: AttachmentOptions): string[] {
+	return (options.inputProperties ?? '')
+		.split(',')
+		.map((property) => property.trim())
+		.filter((property) => property !== '');
+}
+
+/**
+ * Writes the files to a new folder, either a scratch folder outside the project or a
+ * folder in the working directory, and returns the folder and the absolute file paths.
+ */
+export function writeAttachments(
+	cwd: string,
+	location: AttachmentLocation,
+	files: AttachmentFile[],
+): { directory: string; attachments: Attachment[] } {
+	let directory: string;
+	if (location === 'workingDirectory') {
+		directory = path.join(cwd, ATTACHMENT_FOLDER);
+		fs.mkdirSync(directory, { recursive: true });
+	} else {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claude-attachments-'));
+	}
+
+	const usedNames = new Set<string>();
+	const attachments = files.map((file) => {
+		// Binary data without a file name, or with a name another property already uses
+		let fileName = path.basename(file.fileName || file.property);
+		if (usedNames.has(fileName)) {
+			fileName = `${file.property}-${fileName}`;
+		}
+		usedNames.add(fileName);
+		const filePath = path.join(directory, fileName);
+		fs.writeFileSync(filePath, file.data);
+		return {
+			property: file.property,
+			path: filePath,
+			mimeType: file.mimeType,
+			size: file.data.length,
+		};
+	});
+	return { directory, attachments };
+}
+
+export function removeAttachments(directory: string) {
+	fs.rmSync(directory, { recursive: true, force: true });
+}
+
+/**
+ * Lists the attachments for the prompt, with paths relative to the working directory
+ * where possible.
+ */
+export function describeAttachments(attachments: Attachment[], cwd: string): string {
+	const lines = attachments.map((attachment) => {
+		const relativePath = path.relative(cwd, attachment.path);
+		const displayPath = relativePath.startsWith('..') ? attachment.path : relativePath;
+		return `- ${displayPath} (${attachment.mimeType}, ${attachment.size} bytes)`;
+	});
+	return `The following files are attached to this task:\n${lines.join('\n')}`;
+}
+
+/**
+ * Returns the attachments that can be sent as image content blocks.
+ */
+export function getImageAttachments(files: AttachmentFile[]): AttachmentFile[] {
+	return files.filter(
+		(file) => IMAGE_MIME_TYPES.includes(file.mimeType) && file.data.length <= MAX_IMAGE_BYTES,
+	);
+}
+
+/**
+ * Builds the streaming input for a prompt with images, which cannot be passed as a plain
+ * prompt string.
+ */
+export async function* createImagePrompt(
+	prompt: string,
+	images: AttachmentFile[],
+): AsyncIterable<SDKUserMessage> {
+	const imageBlocks: ImageBlock[] = images.map((image) => ({
+		type: 'image',
+		source: { type: 'base64', media_type: image.mimeType, data: image.data.toString('base64') },
+	}));
+	yield {
+		type: 'user',
+		message: {
+			role: 'user',
+			content: [...imageBlocks, { type: 'text', text: prompt }],
+		},
+		parent_tool_use_id: null,
+		session_id: '',
+	};
+}
+
+/**
+ * Writes the files where the options say and lists them in the prompt. Images also go in
+ * as content blocks, which needs streaming input instead of a prompt string.
+ */
+export function attachFiles(
+	cwd: string,
+	prompt: string,
+	options: AttachmentOptions,
+	files: AttachmentFile[],
+): { directory: string; prompt: string | AsyncIterable<SDKUserMessage>; imageCount: number } {
+	const written = writeAttachments(cwd, options.location ?? 'scratch', files);
+	const promptText = `${prompt}\n\n${describeAttachments(written.attachments, cwd)}`;
+	const images = options.sendImages === false ? [] : getImageAttachments(files);
+	return {
+		directory: written.directory,
+		prompt: images.length > 0 ? createImagePrompt(promptText, images) : promptText,
+		imageCount: images.length,
+	};
+}
+
+/**
+ * Compares two snapshots of the output globs and returns the files that were created or
+ * changed in between.
+ */
+export async function findOutputFiles(
+	cwd: string,
+	globs: string,
+	before: Record<string, string>,
+): Promise<string[]> {
+	const after = await getFileSnapshot(cwd, globs);
+	return Object.keys(after).filter(
+		(file) => before[file] !== after[file] && !file.startsWith(`${ATTACHMENT_FOLDER}/`),
+	);
+}
@@ -0,0 +1,131 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+
+// USD per million input and output tokens; cache writes cost 1.25x and cache reads 0.1x input
+const MODEL_PRICES: Array<{ match: string; input: number; output: number }> = [
+	{ match: 'opus', input: 15, output: 75 },
+	{ match: 'haiku', input: 0.8, output: 4 },
+	{ match: 'sonnet', input: 3, output: 15 },
+];
+
+export interface BudgetLimits {
+	maxCostUsd?: number;
+	maxTokens?: number;
+}
+
+export interface RunUsage {
+	costUsd: number;
+	tokens: number;
+}
+
+interface TokenUsage {
+	input_tokens?: number;
+	output_tokens?: number;
+	cache_creation_input_tokens?: number;
+	cache_read_input_tokens?: number;
+}
+
+function getPrices(model: string) {
+	// Unknown models are priced like Sonnet
+	return MODEL_PRICES.find((price) => model.includes(price.match)) ?? MODEL_PRICES[2];
+}
+
+function estimateUsage(calls: Iterable<{ model: string; usage: TokenUsage }>): RunUsage {
+	let costUsd = 0;
+	let tokens = 0;
+	for (const { model, usage } of calls) {
+		const prices = getPrices(model);
+		const input = usage.input_tokens ?? 0;
+		const output = usage.output_tokens ?? 0;
+		const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+		const cacheRead = usage.cache_read_input_tokens ?? 0;
+		tokens += input + output + cacheWrite + cacheRead;
+		costUsd +=
+			(input * prices.input +
+				cacheWrite * prices.input * 1.25 +
+				cacheRead * prices.input * 0.1 +
+				output * prices.output) /
+			1_000_000;
+	}
+	return { costUsd, tokens };
+}
+
+/**
+ * Keeps a running total of tokens and cost while messages stream in, across one or more
+ * queries. The CLI only reports the real cost in each result message, so the cost of
+ * API calls since the last result is estimated from their token usage.
+ */
+export class UsageMeter {
+	// API calls since the last result message, keyed by message ID
+	private readonly pendingCalls = new Map<string, { model: string; usage: TokenUsage }>();
+
+	// Starts from the usage of earlier queries, e.g. of a run resumed after a tool approval
+	constructor(private reported: RunUsage = { costUsd: 0, tokens: 0 }) {}
+
+	add(message: SDKMessage) {
+		if (message.type === 'assistant' && message.message?.usage) {
+			// Every content block arrives as its own message repeating the usage of the API call
+			this.pendingCalls.set(message.message.id, {
+				model: message.message.model ?? '',
+				usage: message.message.usage,
+			});
+		} else if (message.type === 'result') {
+			this.reported = {
+				costUsd: this.reported.costUsd + message.total_cost_usd,
+				tokens: this.reported.tokens + estimateUsage(this.pendingCalls.values()).tokens,
+			};
+			this.pendingCalls.clear();
+		}
+	}
+
+	get usage(): RunUsage {
+		const pending = estimateUsage(this.pendingCalls.values());
+		return {
+			costUsd: this.reported.costUsd + pending.costUsd,
+			tokens: this.reported.tokens + pending.tokens,
+		};
+	}
+
+	/**
+	 * Returns a description of the first limit the run has reached, if any.
+	 */
+	getExceededLimit(limits: BudgetLimits): string | undefined {
+		const { costUsd, tokens } = this.usage;
+		if (limits.maxCostUsd && costUsd >= limits.maxCostUsd) {
+			return `cost limit of $${limits.maxCostUsd} reached ($${costUsd.toFixed(4)} spent)`;
+		}
+		if (limits.maxTokens && tokens >= limits.maxTokens) {
+			return `token limit of ${limits.maxTokens} reached (${tokens} tokens used)`;
+		}
+		return undefined;
+	}
+}
+
+/**
+ * Limits an item to its own budget and whatever is left of the execution budget, and
+ * refuses to start it once the execution budget is used up.
+ */
+export function getItemBudgetLimits(
+	node: INode,
+	itemLimits: BudgetLimits,
+	executionBudgetUsd: number | undefined,
+	costBeforeItem: number,
+	itemIndex: number,
+): BudgetLimits {
+	if (executionBudgetUsd && costBeforeItem >= executionBudgetUsd) {
+		throw new NodeOperationError(node, `Execution budget of $${executionBudgetUsd} is used up`, {
+			itemIndex,
+			type: 'budget_exceeded',
+			description: `Previous items cost $${costBeforeItem.toFixed(4)}, so this item was not started.`,
+		});
+	}
+	const maxCostUsd = Math.min(
+		itemLimits.maxCostUsd || Infinity,
+		executionBudgetUsd ? executionBudgetUsd - costBeforeItem : Infinity,
+	);
+	return {
+		maxCostUsd: Number.isFinite(maxCostUsd) ? maxCostUsd : undefined,
+		maxTokens: itemLimits.maxTokens,
+	};
+}
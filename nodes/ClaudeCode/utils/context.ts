@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { listFiles } from './files';
+
+export interface ContextOptions {
+	files?: string;
+	maxFileSize?: number;
+	maxTotalSize?: number;
+}
+
+export interface ContextFile {
+	path: string;
+	size: number;
+	truncated: boolean;
+}
+
+export interface ProjectContext {
+	prompt: string;
+	files: ContextFile[];
+	// Matching files left out because the total size limit was reached
+	omitted: string[];
+}
+
+/**
+ * Reads the files matching the context globs from the project and wraps them for the
+ * system prompt. Files are kept in the order of the globs, and every file and the whole
+ * context are cut at their size limit with a marker saying how much was left out.
+ */
+export async function loadProjectContext(
+	cwd: string,
+	options: ContextOptions,
+): Promise<ProjectContext> {
+	const maxFileSize = options.maxFileSize || Infinity;
+	let remaining = options.maxTotalSize || Infinity;
+
+	// Listed one glob at a time so "CLAUDE.md, src/**" puts CLAUDE.md first
+	const paths: string[] = [];
+	for (const glob of (options.files ?? '').split(/,(?![^{]*\})/)) {
+		if (glob.trim() === '') continue;
+		for (const file of await listFiles(cwd, glob.trim())) {
+			if (!paths.includes(file)) paths.push(file);
+		}
+	}
+
+	const files: ContextFile[] = [];
+	const omitted: string[] = [];
+	const sections: string[] = [];
+	for (const file of paths) {
+		if (remaining <= 0) {
+			omitted.push(file);
+			continue;
+		}
+		const content = fs.readFileSync(path.join(cwd, file), 'utf8');
+		const limit = Math.min(maxFileSize, remaining);
+		const truncated = content.length > limit;
+		const text = truncated
+			? `${content.slice(0, limit)}\n[... truncated ${content.length - limit} of ${content.length} characters ...]`
+			: content;
+		remaining -= Math.min(content.length, limit);
+		files.push({ path: file, size: content.length, truncated });
+		sections.push(`<file path="${file}">\n${text.replace(/\n$/, '')}\n</file>`);
+	}
+	if (omitted.length > 0) {
+		sections.push(
+			`[... ${omitted.length} more file(s) left out because the context size limit was reached: ${omitted.join(', ')} ...]`,
+		);
+	}
+
+	return {
+		prompt:
+			sections.length > 0
+				? `The following files from the project are provided as context:\n\n${sections.join('\n\n')}`
+				: '',
+		files,
+		omitted,
+	};
+}
@@ -0,0 +1,129 @@
+import type { SDKMessage, SDKUserMessage } from '@anthropic-ai/claude-code';
+import type { IDataObject, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+
+export interface ConversationTurn {
+	itemIndex: number;
+	prompt: string;
+}
+
+/**
+ * Reads the turns of one input item: every entry of the turns field if it is set,
+ * otherwise the item's prompt.
+ */
+export function getItemTurns(
+	itemIndex: number,
+	json: IDataObject,
+	turnsField: string,
+	prompt: string,
+): ConversationTurn[] {
+	let values: unknown[];
+	if (turnsField) {
+		const value = json[turnsField];
+		values = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+	} else {
+		values = [prompt];
+	}
+	return values
+		.map((value) => (typeof value === 'string' ? value : JSON.stringify(value)))
+		.filter((text) => text.trim() !== '')
+		.map((text) => ({ itemIndex, prompt: text }));
+}
+
+/**
+ * Reads the turns of all input items in order. getPrompt() is only called for items
+ * without a turns field.
+ */
+export function getConversationTurns(
+	node: INode,
+	items: IDataObject[],
+	turnsField: string,
+	getPrompt: (itemIndex: number) => string,
+	itemIndex: number,
+): ConversationTurn[] {
+	const turns = items.flatMap((json, index) =>
+		getItemTurns(index, json, turnsField, turnsField ? '' : getPrompt(index)),
+	);
+	if (turns.length === 0) {
+		throw new NodeOperationError(node, 'The conversation has no messages', {
+			itemIndex,
+			description: turnsField
+				? `No input item has entries in the field "${turnsField}".`
+				: 'Every input item has an empty Prompt.',
+		});
+	}
+	return turns;
+}
+
+/**
+ * Creates the streaming input for a conversation. Each turn is sent only after Claude has
+ * answered the previous one, which onReply() signals, and the input stays open until the
+ * last turn is answered so the CLI does not exit early. close() rejects the reply still
+ * awaited once the query has finished or failed, which ends the input without the turns left.
+ */
+export function createConversationInput(turns: ConversationTurn[]): {
+	prompt: AsyncIterable<SDKUserMessage>;
+	onReply: () => void;
+	close: () => void;
+} {
+	let replies = 0;
+	let closed = false;
+	let notify: { resolve: () => void; reject: (error: Error) => void } | undefined;
+	const closedError = () => new Error('The conversation ended before every turn was answered');
+	const waitForReplies = async (count: number) => {
+		while (replies < count) {
+			if (closed) {
+				throw closedError();
+			}
+			await new Promise<void>((resolve, reject) => {
+				notify = { resolve, reject };
+			});
+		}
+	};
+
+	async function* input(): AsyncIterable<SDKUserMessage> {
+		for (const [index, turn] of turns.entries()) {
+			yield {
+				type: 'user',
+				message: { role: 'user', content: turn.prompt },
+				parent_tool_use_id: null,
+				session_id: '',
+			};
+			try {
+				await waitForReplies(index + 1);
+			} catch {
+				// The SDK streams the input without handling its errors, so the input just ends
+				return;
+			}
+		}
+	}
+
+	return {
+		prompt: input(),
+		onReply: () => {
+			replies++;
+			notify?.resolve();
+		},
+		close: () => {
+			closed = true;
+			notify?.reject(closedError());
+		},
+	};
+}
+
+/**
+ * Splits the messages of a conversation into one list per answered turn, each ending
+ * with the result message of that turn.
+ */
+export function splitTurns(messages: SDKMessage[]): SDKMessage[][] {
+	const turns: SDKMessage[][] = [];
+	let current: SDKMessage[] = [];
+	for (const message of messages) {
+		current.push(message);
+		if (message.type === 'result') {
+			turns.push(current);
+			current = [];
+		}
+	}
+	return turns;
+}
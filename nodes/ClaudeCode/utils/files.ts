@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGit } from './git';
+
+// Directories never worth walking when the project is not a git repository
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+/**
+ * Converts a glob such as "src/**\/*.{ts,tsx}" into a regular expression for relative
+ * paths with forward slashes. Supports **, *, ? and {a,b}.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i + 1] === '*') {
+			// "**/" matches zero or more directories, a trailing "**" matches everything
+			if (glob[i + 2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			} else {
+				source += '.*';
+				i += 1;
+			}
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '{') {
+			const end = glob.indexOf('}', i);
+			if (end === -1) {
+				source += '\\{';
+				continue;
+			}
+			const alternatives = glob.slice(i + 1, end).split(',');
+			source += `(?:${alternatives.map((a) => globToRegExp(a).source.slice(1, -1)).join('|')})`;
+			i = end;
+		} else {
+			source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Combines a comma-separated list of globs into one matcher. Commas inside {a,b} are kept.
+ */
+export function createGlobMatcher(globs: string): (relativePath: string) => boolean {
+	const patterns = globs
+		.split(/,(?![^{]*\})/)
+		.map((glob) => glob.trim())
+		.filter((glob) => glob !== '')
+		.map(globToRegExp);
+	return (relativePath) => patterns.some((pattern) => pattern.test(relativePath));
+}
+
+function walk(root: string, directory: string, files: string[]) {
+	let entries: fs.Dirent[];
+	try {
+		entries = fs.readdirSync(directory, { withFileTypes: true });
+	} catch (error) {
+		// Deleted while the parent directory was walked
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return;
+		}
+		throw error;
+	}
+	for (const entry of entries) {
+		const fullPath = path.join(directory, entry.name);
+		if (entry.isDirectory()) {
+			if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+				walk(root, fullPath, files);
+			}
+		} else if (entry.isFile()) {
+			files.push(path.relative(root, fullPath).split(path.sep).join('/'));
+		}
+	}
+}
+
+/**
+ * Lists files below root that match the globs, as relative paths with forward slashes.
+ * In a git repository this uses git ls-files, so files ignored by .gitignore are left out.
+ */
+export async function listFiles(root: string, globs: string): Promise<string[]> {
+	const matches = createGlobMatcher(globs);
+	let files: string[];
+	try {
+		const output = await runGit(root, [
+			'ls-files',
+			'--cached',
+			'--others',
+			'--exclude-standard',
+			'-z',
+		]);
+		files = output
+			.split('\0')
+			.filter((file) => file !== '' && fs.existsSync(path.join(root, file)));
+	} catch {
+		files = [];
+		walk(root, root, files);
+	}
+	return [...new Set(files)].filter(matches).sort();
+}
+
+/**
+ * Records the modification time and size of every matching file, to tell later which
+ * files were added, changed or deleted. Files deleted while the list is read are left out.
+ */
+export async function getFileSnapshot(
+	root: string,
+	globs: string,
+): Promise<Record<string, string>> {
+	const snapshot: Record<string, string> = {};
+	for (const file of await listFiles(root, globs)) {
+		let stat: fs.Stats;
+		try {
+			stat = fs.statSync(path.join(root, file));
+		} catch (error) {
+			// Deleted since the files were listed
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				continue;
+			}
+			throw error;
+		}
+		snapshot[file] = `${stat.mtimeMs}:${stat.size}`;
+	}
+	return snapshot;
+}
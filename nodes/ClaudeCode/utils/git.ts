@@ -0,0 +1,240 @@
+import type { IDataObject, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface GitOptions {
+	branch?: string;
+	commit?: boolean;
+	commitMessage?: string;
+	requireClean?: boolean;
+	trackChanges?: boolean;
+}
+
+export interface GitRun {
+	cwd: string;
+	prompt: string;
+	startHead: string;
+	// Tree of the worktree when the run started, uncommitted and untracked files included
+	startTree: string;
+	branch: string;
+	trackChanges: boolean;
+	commitMessage?: string;
+}
+
+// Hash of the empty tree, used as the parent of root commits
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// File names passed as paths are never read as globs or pathspec magic
+const LITERAL_PATHSPECS = { ...process.env, GIT_LITERAL_PATHSPECS: '1' };
+
+export interface GitChanges {
+	changedFiles: Array<{ status: string; path: string }>;
+	diff: string;
+	diffStats: { filesChanged: number; insertions: number; deletions: number };
+}
+
+export function runGit(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile(
+			'git',
+			args,
+			{ cwd, env: env ?? process.env, maxBuffer: 64 * 1024 * 1024 },
+			(error, stdout, stderr) => {
+				if (error) {
+					reject(new Error(`git ${args[0]} failed: ${(stderr || error.message).trim()}`));
+				} else {
+					resolve(stdout);
+				}
+			},
+		);
+	});
+}
+
+function firstLine(text: string): string {
+	const line = text.trim().split('\n')[0].trim();
+	return line.length > 72 ? `${line.substring(0, 69)}...` : line;
+}
+
+/**
+ * Checks the repository, records the starting HEAD and creates the branch before a run.
+ */
+export async function startGitRun(
+	node: INode,
+	cwd: string,
+	options: GitOptions,
+	prompt: string,
+	itemIndex: number,
+): Promise<GitRun> {
+	try {
+		await runGit(cwd, ['rev-parse', '--is-inside-work-tree']);
+	} catch {
+		throw new NodeOperationError(node, `Project Path is not a git repository: ${cwd}`, {
+			itemIndex,
+			type: 'not_a_git_repository',
+			description: 'Git options need the Project Path to be inside a git worktree.',
+		});
+	}
+
+	let startHead: string;
+	try {
+		startHead = (await runGit(cwd, ['rev-parse', 'HEAD'])).trim();
+	} catch {
+		throw new NodeOperationError(node, 'The git repository has no commits yet', {
+			itemIndex,
+			type: 'not_a_git_repository',
+			description: 'Create an initial commit so changes can be tracked against it.',
+		});
+	}
+
+	if (options.requireClean) {
+		const status = (await runGit(cwd, ['status', '--porcelain'])).trim();
+		if (status) {
+			throw new NodeOperationError(node, 'The git worktree has uncommitted changes', {
+				itemIndex,
+				type: 'dirty_worktree',
+				description: `Commit or stash these changes first, or disable Require Clean Worktree:\n${status}`,
+			});
+		}
+	}
+
+	const branchName = (options.branch || '').trim();
+	if (branchName) {
+		await runGit(cwd, ['checkout', '-b', branchName]);
+	}
+	const branch = (await runGit(cwd, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+
+	return {
+		cwd,
+		prompt,
+		startHead,
+		startTree: await writeWorktreeTree(cwd),
+		branch,
+		trackChanges: options.trackChanges !== false,
+		commitMessage: options.commit
+			? (options.commitMessage || '').trim() || 'Claude Code: {prompt}'
+			: undefined,
+	};
+}
+
+/**
+ * Writes the current content of the worktree, including untracked files, as a tree object.
+ * It goes through a temporary index, so the user's staging area is never touched.
+ */
+async function writeWorktreeTree(
+	cwd: string,
+	env: NodeJS.ProcessEnv = process.env,
+): Promise<string> {
+	const indexFile = path.join(os.tmpdir(), `claudecode-index-${randomUUID()}`);
+	const indexEnv = { ...env, GIT_INDEX_FILE: indexFile };
+
+	try {
+		await runGit(cwd, ['read-tree', 'HEAD'], indexEnv);
+		await runGit(cwd, ['add', '-A'], indexEnv);
+		return (await runGit(cwd, ['write-tree'], indexEnv)).trim();
+	} finally {
+		fs.rmSync(indexFile, { force: true });
+	}
+}
+
+/**
+ * Lists everything in the worktree that differs from fromRef, including untracked files.
+ * Pass env to point git at a different repository, e.g. with GIT_DIR and GIT_WORK_TREE,
+ * and paths to limit the diff to some files.
+ */
+export async function getChanges(
+	cwd: string,
+	fromRef: string,
+	env: NodeJS.ProcessEnv = process.env,
+	paths: string[] = [],
+): Promise<GitChanges> {
+	const tree = await writeWorktreeTree(cwd, env);
+	return await diffRefs(cwd, [fromRef, tree, '--', ...paths], env);
+}
+
+/**
+ * Lists what a single commit changed compared to its first parent.
+ */
+export async function getCommitChanges(cwd: string, commit: string): Promise<GitChanges> {
+	const parents = (await runGit(cwd, ['rev-list', '--parents', '-n', '1', commit]))
+		.trim()
+		.split(' ');
+	return await diffRefs(cwd, [parents[1] ?? EMPTY_TREE, commit]);
+}
+
+async function diffRefs(
+	cwd: string,
+	args: string[],
+	env: NodeJS.ProcessEnv = process.env,
+): Promise<GitChanges> {
+	const nameStatus = await runGit(cwd, ['diff', '--name-status', ...args], env);
+	const changedFiles = nameStatus
+		.split('\n')
+		.filter((line) => line.trim() !== '')
+		.map((line) => {
+			const [status, ...paths] = line.split('\t');
+			return { status: status.charAt(0), path: paths[paths.length - 1] };
+		});
+
+	const numstat = await runGit(cwd, ['diff', '--numstat', ...args], env);
+	let insertions = 0;
+	let deletions = 0;
+	for (const line of numstat.split('\n')) {
+		const [added, removed] = line.split('\t');
+		insertions += parseInt(added, 10) || 0;
+		deletions += parseInt(removed, 10) || 0;
+	}
+
+	return {
+		changedFiles,
+		diff: await runGit(cwd, ['diff', ...args], env),
+		diffStats: { filesChanged: changedFiles.length, insertions, deletions },
+	};
+}
+
+async function listChangedPaths(cwd: string, args: string[]): Promise<string[]> {
+	const output = await runGit(
+		cwd,
+		['diff', '--name-only', '--no-renames', '-z', ...args],
+		LITERAL_PATHSPECS,
+	);
+	return output.split('\0').filter((file) => file !== '');
+}
+
+/**
+ * Collects everything that changed since the run started and, if the run succeeded, commits
+ * the files the run changed. Other uncommitted or staged changes stay as they were.
+ */
+export async function finishGitRun(run: GitRun, result: string | null): Promise<IDataObject> {
+	const output: IDataObject = { startHead: run.startHead, branch: run.branch };
+
+	if (run.trackChanges) {
+		Object.assign(output, await getChanges(run.cwd, run.startHead));
+	}
+
+	output.commit = null;
+	if (run.commitMessage && result !== null) {
+		const endTree = await writeWorktreeTree(run.cwd);
+		const runPaths = await listChangedPaths(run.cwd, [run.startTree, endTree]);
+		// Of those, the ones that differ from HEAD, leaving out untracked files the run deleted
+		const paths =
+			runPaths.length > 0
+				? await listChangedPaths(run.cwd, ['HEAD', endTree, '--', ...runPaths])
+				: [];
+		if (paths.length > 0) {
+			const message = run.commitMessage
+				.replace(/\{prompt\}/g, firstLine(run.prompt))
+				.replace(/\{result\}/g, firstLine(result));
+			// New files must be known to git before --only can commit them
+			await runGit(run.cwd, ['add', '-A', '--', ...paths], LITERAL_PATHSPECS);
+			await runGit(run.cwd, ['commit', '--only', '-m', message, '--', ...paths], LITERAL_PATHSPECS);
+			output.commit = (await runGit(run.cwd, ['rev-parse', 'HEAD'])).trim();
+		}
+	}
+	output.endHead = (await runGit(run.cwd, ['rev-parse', 'HEAD'])).trim();
+
+	return output;
+}
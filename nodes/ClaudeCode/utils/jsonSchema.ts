@@ -0,0 +1,283 @@
+import type { IDataObject } from 'n8n-workflow';
+
+export type JsonSchema = IDataObject;
+
+function getType(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	const actual = getType(value);
+	return actual === type || (type === 'number' && actual === 'integer');
+}
+
+const SCHEMA_TYPES = ['array', 'boolean', 'integer', 'null', 'number', 'object', 'string'];
+
+// The keywords validateJsonSchema() checks
+const VALIDATION_KEYWORDS = new Set([
+	'additionalProperties',
+	'allOf',
+	'anyOf',
+	'const',
+	'enum',
+	'items',
+	'maximum',
+	'maxItems',
+	'maxLength',
+	'minimum',
+	'minItems',
+	'minLength',
+	'oneOf',
+	'pattern',
+	'properties',
+	'required',
+	'type',
+]);
+// Keywords that only describe the schema and never reject a value
+const ANNOTATION_KEYWORDS = new Set([
+	'$comment',
+	'$id',
+	'$schema',
+	'default',
+	'description',
+	'examples',
+	'title',
+]);
+const BOUND_KEYWORDS = ['maximum', 'maxItems', 'maxLength', 'minimum', 'minItems', 'minLength'];
+
+function isSchema(value: unknown): value is JsonSchema {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Checks that a schema can be validated against before any tokens are spent on an answer:
+ * only supported keywords, known types, valid patterns and subschemas that are objects.
+ * Unsupported keywords such as $ref or format are rejected rather than ignored, so the
+ * answer is never accepted without the check they ask for. Returns one message per problem.
+ */
+export function checkJsonSchema(schema: JsonSchema, at = '$'): string[] {
+	const errors: string[] = [];
+
+	for (const keyword of Object.keys(schema)) {
+		if (!VALIDATION_KEYWORDS.has(keyword) && !ANNOTATION_KEYWORDS.has(keyword)) {
+			errors.push(`${at}.${keyword} is not supported by the validator`);
+		}
+	}
+	for (const keyword of BOUND_KEYWORDS) {
+		if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+			errors.push(`${at}.${keyword} should be a number`);
+		}
+	}
+	if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+		errors.push(`${at}.enum should be an array`);
+	}
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		for (const type of types) {
+			if (typeof type !== 'string' || !SCHEMA_TYPES.includes(type)) {
+				errors.push(`${at}.type ${JSON.stringify(type)} is not a JSON Schema type`);
+			}
+		}
+	}
+	if (schema.pattern !== undefined && typeof schema.pattern !== 'string') {
+		errors.push(`${at}.pattern should be a string`);
+	} else if (schema.pattern !== undefined) {
+		try {
+			new RegExp(schema.pattern);
+		} catch (error) {
+			errors.push(`${at}.pattern is not a valid regular expression: ${(error as Error).message}`);
+		}
+	}
+	if (
+		schema.required !== undefined &&
+		(!Array.isArray(schema.required) || !schema.required.every((key) => typeof key === 'string'))
+	) {
+		errors.push(`${at}.required should be an array of property names`);
+	}
+
+	if (schema.properties !== undefined) {
+		if (isSchema(schema.properties)) {
+			for (const [key, property] of Object.entries(schema.properties)) {
+				errors.push(
+					...(isSchema(property)
+						? checkJsonSchema(property, `${at}.properties.${key}`)
+						: [`${at}.properties.${key} should be a schema object`]),
+				);
+			}
+		} else {
+			errors.push(`${at}.properties should be an object`);
+		}
+	}
+	for (const keyword of ['items', 'additionalProperties']) {
+		const subschema = schema[keyword];
+		if (isSchema(subschema)) {
+			errors.push(...checkJsonSchema(subschema, `${at}.${keyword}`));
+		} else if (subschema !== undefined && typeof subschema !== 'boolean') {
+			errors.push(`${at}.${keyword} should be a schema object`);
+		}
+	}
+	for (const keyword of ['allOf', 'anyOf', 'oneOf']) {
+		const subschemas = schema[keyword];
+		if (subschemas === undefined) continue;
+		if (!Array.isArray(subschemas)) {
+			errors.push(`${at}.${keyword} should be an array of schema objects`);
+			continue;
+		}
+		subschemas.forEach((subschema, index) =>
+			errors.push(
+				...(isSchema(subschema)
+					? checkJsonSchema(subschema, `${at}.${keyword}[${index}]`)
+					: [`${at}.${keyword}[${index}] should be a schema object`]),
+			),
+		);
+	}
+
+	return errors;
+}
+
+/**
+ * Validates value against the commonly used subset of JSON Schema: type, enum, const,
+ * properties, required, additionalProperties, items, string, number and array bounds,
+ * pattern, allOf, anyOf and oneOf. Returns one message per violation.
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, at = '$'): string[] {
+	const errors: string[] = [];
+
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+		if (!types.some((type) => matchesType(value, type))) {
+			return [`${at} should be ${types.join(' or ')}, got ${getType(value)}`];
+		}
+	}
+	if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+		errors.push(`${at} should be ${JSON.stringify(schema.const)}`);
+	}
+	if (
+		Array.isArray(schema.enum) &&
+		!schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))
+	) {
+		errors.push(`${at} should be one of ${JSON.stringify(schema.enum)}`);
+	}
+
+	if (typeof value === 'string') {
+		if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+			errors.push(`${at} should have at least ${schema.minLength} characters`);
+		}
+		if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+			errors.push(`${at} should have at most ${schema.maxLength} characters`);
+		}
+		if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+			errors.push(`${at} should match ${schema.pattern}`);
+		}
+	}
+
+	if (typeof value === 'number') {
+		if (typeof schema.minimum === 'number' && value < schema.minimum) {
+			errors.push(`${at} should be >= ${schema.minimum}`);
+		}
+		if (typeof schema.maximum === 'number' && value > schema.maximum) {
+			errors.push(`${at} should be <= ${schema.maximum}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+			errors.push(`${at} should have at least ${schema.minItems} items`);
+		}
+		if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+			errors.push(`${at} should have at most ${schema.maxItems} items`);
+		}
+		if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+			value.forEach((item, index) =>
+				errors.push(...validateJsonSchema(schema.items as JsonSchema, item, `${at}[${index}]`)),
+			);
+		}
+	}
+
+	if (getType(value) === 'object') {
+		const object = value as IDataObject;
+		const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+		for (const key of (schema.required ?? []) as string[]) {
+			if (!(key in object)) {
+				errors.push(`${at}.${key} is required`);
+			}
+		}
+		for (const [key, propertyValue] of Object.entries(object)) {
+			if (properties[key]) {
+				errors.push(...validateJsonSchema(properties[key], propertyValue, `${at}.${key}`));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${at}.${key} is not allowed`);
+			} else if (typeof schema.additionalProperties === 'object') {
+				errors.push(
+					...validateJsonSchema(
+						schema.additionalProperties as JsonSchema,
+						propertyValue,
+						`${at}.${key}`,
+					),
+				);
+			}
+		}
+	}
+
+	if (Array.isArray(schema.allOf)) {
+		for (const subschema of schema.allOf as JsonSchema[]) {
+			errors.push(...validateJsonSchema(subschema, value, at));
+		}
+	}
+	if (Array.isArray(schema.anyOf)) {
+		const matches = (schema.anyOf as JsonSchema[]).filter(
+			(subschema) => validateJsonSchema(subschema, value, at).length === 0,
+		);
+		if (matches.length === 0) {
+			errors.push(`${at} should match at least one schema in anyOf`);
+		}
+	}
+	if (Array.isArray(schema.oneOf)) {
+		const matches = (schema.oneOf as JsonSchema[]).filter(
+			(subschema) => validateJsonSchema(subschema, value, at).length === 0,
+		);
+		if (matches.length !== 1) {
+			errors.push(`${at} should match exactly one schema in oneOf, matched ${matches.length}`);
+		}
+	}
+
+	return errors;
+}
+
+function tryParse(text: string): { value: unknown } | undefined {
+	try {
+		return { value: JSON.parse(text) };
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Finds the JSON value in a model answer: the whole text, the last ```json block,
+ * or the span from the first opening to the last closing bracket.
+ */
+export function extractJson(text: string): { value: unknown } | undefined {
+	const trimmed = text.trim();
+	const whole = tryParse(trimmed);
+	if (whole) {
+		return whole;
+	}
+
+	const fences = [...trimmed.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)];
+	for (const fence of fences.reverse()) {
+		const fenced = tryParse(fence[1].trim());
+		if (fenced) {
+			return fenced;
+		}
+	}
+
+	const start = trimmed.search(/[[{]/);
+	const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+	if (start !== -1 && end > start) {
+		return tryParse(trimmed.slice(start, end + 1));
+	}
+	return undefined;
+}
@@ -0,0 +1,175 @@
+import type { McpServerConfig } from '@anthropic-ai/claude-code';
+import type { ICredentialDataDecryptedObject, IDataObject, INode } from 'n8n-workflow';
+import { NodeOperationError, jsonParse } from 'n8n-workflow';
+import { MCP_TOOL_PATTERN } from './permissions';
+
+export interface McpServerParameters {
+	name: string;
+	transport: 'stdio' | 'sse' | 'http';
+	command?: string;
+	args?: string;
+	env?: string | IDataObject;
+	url?: string;
+	headers?: string | IDataObject;
+}
+
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const PLACEHOLDER_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Reads the secrets of the MCP Secrets credential. They are filled into the configuration
+ * of the servers that use them, never into the environment of the CLI itself.
+ */
+export function getMcpSecrets(credentials: ICredentialDataDecryptedObject): Record<string, string> {
+	const secrets = credentials.secrets as string | undefined;
+	if (!secrets || !secrets.trim()) {
+		return {};
+	}
+	const parsed = jsonParse<IDataObject>(secrets, {
+		errorMessage: 'MCP secrets must be a JSON object of names and values',
+	});
+	return Object.fromEntries(Object.entries(parsed).map(([name, value]) => [name, String(value)]));
+}
+
+/**
+ * Fills ${NAME} and ${NAME:-default} placeholders whose name is one of the variables.
+ * Other placeholders, defaults included, are kept for the CLI to fill from its environment.
+ */
+function expandVariables(value: string, variables: Record<string, string>): string {
+	return value.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+		Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder,
+	);
+}
+
+function expandMcpServer(
+	config: McpServerConfig,
+	variables: Record<string, string>,
+): McpServerConfig {
+	const expandMap = (values?: Record<string, string>) =>
+		values &&
+		Object.fromEntries(
+			Object.entries(values).map(([key, value]) => [key, expandVariables(value, variables)]),
+		);
+	if (config.type === 'sse' || config.type === 'http') {
+		return {
+			...config,
+			url: expandVariables(config.url, variables),
+			...(config.headers && { headers: expandMap(config.headers) }),
+		};
+	}
+	return {
+		...config,
+		command: expandVariables(config.command, variables),
+		...(config.args && { args: config.args.map((arg) => expandVariables(arg, variables)) }),
+		...(config.env && { env: expandMap(config.env) }),
+	};
+}
+
+function parseStringMap(
+	node: INode,
+	value: string | IDataObject | undefined,
+	field: string,
+	serverName: string,
+): Record<string, string> | undefined {
+	if (value === undefined || value === '') {
+		return undefined;
+	}
+
+	let parsed: IDataObject;
+	try {
+		parsed = typeof value === 'string' ? jsonParse<IDataObject>(value) : value;
+	} catch {
+		throw new NodeOperationError(node, `Invalid ${field} for MCP server "${serverName}"`, {
+			description: `${field} must be a JSON object, e.g. {"API_KEY": "\${API_KEY}"}.`,
+		});
+	}
+
+	const entries = Object.entries(parsed);
+	if (entries.length === 0) {
+		return undefined;
+	}
+	return Object.fromEntries(entries.map(([key, v]) => [key, String(v)]));
+}
+
+/**
+ * Builds the MCP server configurations of the node, with ${NAME} placeholders filled from
+ * the MCP secrets. A secret thus only reaches the server that uses it, while tools such as
+ * Bash, which inherit the environment of the CLI, never see it.
+ */
+export function buildMcpServers(
+	node: INode,
+	servers: McpServerParameters[],
+	secrets: Record<string, string> = {},
+): Record<string, McpServerConfig> {
+	const mcpServers: Record<string, McpServerConfig> = {};
+
+	for (const server of servers) {
+		const name = (server.name || '').trim();
+		if (!SERVER_NAME_PATTERN.test(name)) {
+			throw new NodeOperationError(node, `Invalid MCP server name: "${name}"`, {
+				description: 'Server names may only contain letters, numbers, hyphens and underscores.',
+			});
+		}
+		if (mcpServers[name]) {
+			throw new NodeOperationError(node, `Duplicate MCP server name: "${name}"`);
+		}
+
+		if (server.transport === 'stdio') {
+			const command = (server.command || '').trim();
+			if (!command) {
+				throw new NodeOperationError(node, `MCP server "${name}" needs a command`);
+			}
+			const args = (server.args || '')
+				.split('\n')
+				.map((arg) => arg.trim())
+				.filter((arg) => arg !== '');
+			const env = parseStringMap(node, server.env, 'Environment Variables', name);
+			mcpServers[name] = {
+				type: 'stdio',
+				command,
+				...(args.length > 0 && { args }),
+				...(env && { env }),
+			};
+		} else {
+			const url = (server.url || '').trim();
+			if (!url) {
+				throw new NodeOperationError(node, `MCP server "${name}" needs a URL`);
+			}
+			const headers = parseStringMap(node, server.headers, 'Headers', name);
+			mcpServers[name] = {
+				type: server.transport,
+				url,
+				...(headers && { headers }),
+			};
+		}
+	}
+
+	return Object.fromEntries(
+		Object.entries(mcpServers).map(([name, config]) => [name, expandMcpServer(config, secrets)]),
+	);
+}
+
+/**
+ * Reads the Allowed MCP Tools parameter, a comma-separated list of server or tool names.
+ * Workflows saved when it was a list of options pass an array.
+ */
+export function parseMcpToolNames(
+	node: INode,
+	value: string | string[],
+	itemIndex: number,
+): string[] {
+	const names = (Array.isArray(value) ? value : value.split(/[,\n]/))
+		.map((name) => name.trim())
+		.filter((name) => name !== '');
+	for (const name of names) {
+		if (!MCP_TOOL_PATTERN.test(name)) {
+			throw new NodeOperationError(node, `Invalid MCP tool name: "${name}"`, {
+				itemIndex,
+				type: 'invalid_configuration',
+				description:
+					'Name a whole server as mcp__<server> or one of its tools as mcp__<server>__<tool>, e.g. mcp__github__create_issue.',
+			});
+		}
+	}
+	return names;
+}
@@ -0,0 +1,161 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { IDataObject } from 'n8n-workflow';
+
+const MAX_EVENT_CONTENT_LENGTH = 2000;
+
+// Built-in tools whose input names the file they read or write
+const READ_TOOLS: Record<string, string> = { NotebookRead: 'notebook_path', Read: 'file_path' };
+const WRITE_TOOLS: Record<string, string> = {
+	Edit: 'file_path',
+	MultiEdit: 'file_path',
+	NotebookEdit: 'notebook_path',
+	Write: 'file_path',
+};
+
+// When each message arrived, recorded by runQuery since SDK messages carry no timestamps
+const receivedAt = new WeakMap<SDKMessage, number>();
+
+export interface ContentBlock {
+	type: string;
+	id?: string;
+	name?: string;
+	input?: IDataObject;
+	text?: string;
+	tool_use_id?: string;
+	is_error?: boolean;
+	content?: string | ContentBlock[];
+}
+
+export interface ToolCall {
+	id?: string;
+	name?: string;
+	input?: IDataObject;
+	result: string | null;
+	isError: boolean;
+	startedAt: string | null;
+	durationMs: number | null;
+}
+
+export function recordReceived(message: SDKMessage) {
+	receivedAt.set(message, Date.now());
+}
+
+export function getContentBlocks(message: SDKMessage): ContentBlock[] {
+	if (message.type !== 'assistant' && message.type !== 'user') {
+		return [];
+	}
+	const content = message.message.content as string | ContentBlock[];
+	return Array.isArray(content) ? content : [];
+}
+
+export function getToolResultText(block: ContentBlock): string {
+	if (typeof block.content === 'string') {
+		return block.content;
+	}
+	return (block.content ?? []).map((c) => c.text ?? '').join('');
+}
+
+export function truncate(text: string, maxLength = MAX_EVENT_CONTENT_LENGTH): string {
+	return text.length > maxLength
+		? `${text.substring(0, maxLength)}... [truncated ${text.length - maxLength} characters]`
+		: text;
+}
+
+/**
+ * Breaks an SDK message into progress events: assistant text, tool_use, tool_result and result.
+ */
+export function getProgressEvents(message: SDKMessage): IDataObject[] {
+	if (message.type === 'result') {
+		return [
+			{
+				type: 'result',
+				subtype: message.subtype,
+				success: message.subtype === 'success',
+				result: message.subtype === 'success' ? message.result : null,
+				num_turns: message.num_turns,
+				duration_ms: message.duration_ms,
+				total_cost_usd: message.total_cost_usd,
+			},
+		];
+	}
+
+	const events: IDataObject[] = [];
+	for (const block of getContentBlocks(message)) {
+		if (message.type === 'assistant' && block.type === 'text') {
+			events.push({ type: 'assistant_text', text: block.text });
+		} else if (message.type === 'assistant' && block.type === 'tool_use') {
+			events.push({
+				type: 'tool_use',
+				toolName: block.name,
+				toolInput: block.input,
+				toolUseId: block.id,
+			});
+		} else if (message.type === 'user' && block.type === 'tool_result') {
+			events.push({
+				type: 'tool_result',
+				toolUseId: block.tool_use_id,
+				isError: !!block.is_error,
+				content: truncate(getToolResultText(block)),
+			});
+		}
+	}
+	return events;
+}
+
+/**
+ * Pairs every tool_use with its tool_result. Calls without a result, e.g. because the run
+ * was stopped, have a null result.
+ */
+export function getToolCalls(messages: SDKMessage[]): ToolCall[] {
+	const toolCalls: ToolCall[] = [];
+	const byId = new Map<string, { toolCall: ToolCall; started?: number }>();
+	for (const message of messages) {
+		for (const block of getContentBlocks(message)) {
+			if (message.type === 'assistant' && block.type === 'tool_use') {
+				const started = receivedAt.get(message);
+				const toolCall: ToolCall = {
+					id: block.id,
+					name: block.name,
+					input: block.input,
+					result: null,
+					isError: false,
+					startedAt: started ? new Date(started).toISOString() : null,
+					durationMs: null,
+				};
+				toolCalls.push(toolCall);
+				if (block.id) byId.set(block.id, { toolCall, started });
+			} else if (message.type === 'user' && block.type === 'tool_result') {
+				const call = byId.get(block.tool_use_id ?? '');
+				if (!call) continue;
+				const finished = receivedAt.get(message);
+				call.toolCall.result = truncate(getToolResultText(block));
+				call.toolCall.isError = !!block.is_error;
+				call.toolCall.durationMs = call.started && finished ? finished - call.started : null;
+			}
+		}
+	}
+	return toolCalls;
+}
+
+/**
+ * Counts the calls per tool and lists the files read and written and the shell commands run.
+ */
+export function summarizeToolCalls(toolCalls: ToolCall[]) {
+	const toolCounts: Record<string, number> = {};
+	const filesRead = new Set<string>();
+	const filesWritten = new Set<string>();
+	const commands: string[] = [];
+	for (const { name = 'unknown', input = {}, isError } of toolCalls) {
+		toolCounts[name] = (toolCounts[name] ?? 0) + 1;
+		// Failed or denied file tools did not touch the file; commands are listed either way
+		if (isError && name !== 'Bash') continue;
+		if (name in READ_TOOLS && input[READ_TOOLS[name]]) {
+			filesRead.add(String(input[READ_TOOLS[name]]));
+		} else if (name in WRITE_TOOLS && input[WRITE_TOOLS[name]]) {
+			filesWritten.add(String(input[WRITE_TOOLS[name]]));
+		} else if (name === 'Bash' && input.command) {
+			commands.push(String(input.command));
+		}
+	}
+	return { toolCounts, filesRead: [...filesRead], filesWritten: [...filesWritten], commands };
+}
@@ -0,0 +1,175 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { IDataObject, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { getContentBlocks, getToolResultText } from './messages';
+
+// Tool results the CLI returns when a tool needs permission nobody can grant in headless runs
+const PERMISSION_REQUEST_PREFIX = 'Claude requested permissions to';
+// Tool results the CLI returns when a deny rule matched
+const PERMISSION_DENIED_PATTERN = /^Permission to .+ has been denied\.$/;
+
+const TOOL_NAME_PATTERN = /^[A-Z][A-Za-z]*$/;
+export const MCP_TOOL_PATTERN = /^mcp__[A-Za-z0-9_-]+(__[A-Za-z0-9_-]+)?$/;
+
+export interface PermissionRequest {
+	toolName: string;
+	toolInput: IDataObject;
+	toolUseId: string;
+}
+
+export interface DeniedToolCall extends PermissionRequest {
+	reason: 'deny_rule' | 'not_allowed';
+	message: string;
+}
+
+export interface ToolRuleParameters {
+	action: 'allow' | 'deny';
+	tool: string;
+	pattern?: string;
+}
+
+function findToolUse(messages: SDKMessage[], toolUseId?: string): PermissionRequest | undefined {
+	for (const m of messages) {
+		if (m.type !== 'assistant') continue;
+		const toolUse = getContentBlocks(m).find((c) => c.type === 'tool_use' && c.id === toolUseId);
+		if (toolUse) {
+			return {
+				toolName: toolUse.name as string,
+				toolInput: toolUse.input ?? {},
+				toolUseId: toolUse.id as string,
+			};
+		}
+	}
+	return undefined;
+}
+
+function getDeniedToolCalls(message: SDKMessage, messages: SDKMessage[]): DeniedToolCall[] {
+	if (message.type !== 'user') {
+		return [];
+	}
+
+	const denied: DeniedToolCall[] = [];
+	for (const block of getContentBlocks(message)) {
+		if (block.type !== 'tool_result' || !block.is_error) continue;
+		const text = getToolResultText(block);
+		const reason = text.startsWith(PERMISSION_REQUEST_PREFIX)
+			? 'not_allowed'
+			: PERMISSION_DENIED_PATTERN.test(text)
+				? 'deny_rule'
+				: undefined;
+		const toolUse = reason && findToolUse(messages, block.tool_use_id);
+		if (reason && toolUse) {
+			denied.push({ ...toolUse, reason, message: text });
+		}
+	}
+	return denied;
+}
+
+/**
+ * Lists every tool call the CLI refused, either through a deny rule or because it was not allowed.
+ */
+export function findDeniedToolCalls(messages: SDKMessage[]): DeniedToolCall[] {
+	return messages.flatMap((message) => getDeniedToolCalls(message, messages));
+}
+
+/**
+ * Returns the tool call behind a permission request if message is the tool result reporting it.
+ */
+export function findPermissionRequest(
+	message: SDKMessage,
+	messages: SDKMessage[],
+): PermissionRequest | undefined {
+	const request = getDeniedToolCalls(message, messages).find((d) => d.reason === 'not_allowed');
+	if (!request) {
+		return undefined;
+	}
+	const { toolName, toolInput, toolUseId } = request;
+	return { toolName, toolInput, toolUseId };
+}
+
+function validateToolRule(node: INode, tool: string, pattern: string, itemIndex: number) {
+	const fail = (message: string, description: string) => {
+		const rule = pattern ? `${tool}(${pattern})` : tool;
+		throw new NodeOperationError(node, `Invalid tool rule "${rule}": ${message}`, {
+			itemIndex,
+			type: 'invalid_tool_rule',
+			description,
+		});
+	};
+
+	if (!TOOL_NAME_PATTERN.test(tool) && !MCP_TOOL_PATTERN.test(tool)) {
+		fail(
+			'unknown tool name format',
+			'Use a built-in tool name such as Bash or Edit, or an MCP tool name such as mcp__github__create_issue.',
+		);
+	}
+	if (!pattern) {
+		return;
+	}
+	if (/[\r\n]/.test(pattern)) {
+		fail('line breaks are not allowed', 'Write the pattern on a single line.');
+	}
+	if (tool.startsWith('mcp__')) {
+		fail(
+			'MCP tools do not take patterns',
+			'Allow or deny MCP tools by name only, e.g. mcp__github or mcp__github__create_issue.',
+		);
+	}
+	if (tool === 'Bash' && pattern.indexOf(':*') !== -1 && !pattern.endsWith(':*')) {
+		fail(
+			'":*" is only allowed at the end',
+			'Bash patterns are an exact command such as "npm test" or a prefix ending in ":*" such as "git:*".',
+		);
+	}
+	if (tool === 'WebFetch' && !/^domain:[^\s]+$/.test(pattern)) {
+		fail('expected "domain:<host>"', 'WebFetch patterns look like "domain:example.com".');
+	}
+}
+
+/**
+ * Turns the Tool Rules parameter into allowedTools and disallowedTools entries for the SDK.
+ */
+export function buildToolRules(
+	node: INode,
+	rules: ToolRuleParameters[],
+	itemIndex: number,
+): { allow: string[]; deny: string[] } {
+	const allow: string[] = [];
+	const deny: string[] = [];
+
+	for (const rule of rules) {
+		const tool = (rule.tool || '').trim();
+		const pattern = (rule.pattern || '').trim();
+		validateToolRule(node, tool, pattern, itemIndex);
+		(rule.action === 'deny' ? deny : allow).push(pattern ? `${tool}(${pattern})` : tool);
+	}
+
+	return { allow, deny };
+}
+
+// Tools that write a file and the input holding its path. The CLI checks all of them against Edit rules.
+const FILE_EDIT_TOOLS = new Map([
+	['Edit', 'file_path'],
+	['MultiEdit', 'file_path'],
+	['NotebookEdit', 'notebook_path'],
+	['Write', 'file_path'],
+]);
+
+/**
+ * Builds the narrowest allowedTools entry that permits exactly the requested call: the
+ * shell command for Bash, the file for tools that write one, the tool name otherwise.
+ */
+export function getPermissionRule(request: PermissionRequest): string {
+	const { toolName, toolInput } = request;
+	if (toolName === 'Bash' && typeof toolInput.command === 'string') {
+		return `Bash(${toolInput.command})`;
+	}
+	const pathInput = FILE_EDIT_TOOLS.get(toolName);
+	const filePath = pathInput && toolInput[pathInput];
+	if (typeof filePath === 'string') {
+		// Path rules are gitignore patterns, where absolute paths start with "//"
+		const pattern = filePath.replace(/[\\*?[!]/g, '\\$&');
+		return `Edit(${pattern.startsWith('/') ? `/${pattern}` : pattern})`;
+	}
+	return toolName;
+}
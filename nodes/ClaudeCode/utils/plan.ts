@@ -0,0 +1,316 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { IDataObject } from 'n8n-workflow';
+import { createGlobMatcher } from './files';
+import { getContentBlocks, getToolCalls, type ToolCall } from './messages';
+
+// The CLI has used both names for the tool that ends plan mode
+const EXIT_PLAN_MODE_TOOLS = ['ExitPlanMode', 'exit_plan_mode'];
+
+// Denied while planning on top of the CLI's plan permission mode, so a plan run never writes
+export const PLAN_MODE_BLOCKED_TOOLS = ['Bash', 'Edit', 'MultiEdit', 'NotebookEdit', 'Write'];
+
+/**
+ * Removes the tools a plan run must not use without asking from the allowed tools. The CLI
+ * runs allowed tools before it looks at the plan permission mode, and MCP tools can have
+ * side effects of their own, so they are left to plan mode to refuse.
+ */
+export function getPlanModeAllowedTools(tools: string[]): string[] {
+	return tools.filter((tool) => {
+		const name = tool.replace(/\(.*\)$/, '');
+		return !PLAN_MODE_BLOCKED_TOOLS.includes(name) && !name.startsWith('mcp__');
+	});
+}
+
+// Risks of the shell commands Claude tried to run while planning
+const COMMAND_RISKS: Record<string, RegExp> = {
+	database_change: /\b(migrate|psql|mysql|sqlite3|mongosh?)\b|\bprisma\s+(db|migrate)\b/,
+	dependency_change:
+		/\b(npm|pnpm|yarn|pip3?|poetry|cargo|composer|gem|bundle|go)\s+(add|get|install|remove|uninstall|update|upgrade)\b/,
+	deletes_files: /(^|[;&|(]\s*)(sudo\s+)?(rm|rmdir|unlink|shred)\s|\bgit\s+(rm|clean)\b/,
+	deployment:
+		/\b(kubectl|helm|vercel|netlify|flyctl)\b|\b(npm|pnpm|yarn)\s+publish\b|\bdocker\s+push\b|\bterraform\s+apply\b/,
+	external_request: /\b(curl|wget|ssh|scp|rsync)\b/,
+	git_history: /\bgit\s+(push|rebase|filter-branch|reset\s+--hard|commit\s+--amend)\b/,
+};
+
+// Risks of the files Claude tried to edit while planning, matched against the path
+const FILE_RISKS: Record<string, RegExp> = {
+	config_change: /(^|\/)(\.env[^/]*|[^/]*config[^/]*|[^/]*settings[^/]*)$/i,
+	database_change: /(^|\/)migrations?\/|\.sql$/i,
+	dependency_change:
+		/(^|\/)(package(-lock)?\.json|yarn\.lock|pnpm-lock\.yaml|requirements[^/]*\.txt|pyproject\.toml|go\.(mod|sum)|Cargo\.(toml|lock)|Gemfile(\.lock)?|composer\.(json|lock))$/,
+};
+
+const FILE_PATTERN =
+	/`([^`\s]+)`|(?:^|[\s(])((?:\.{1,2}\/)?(?:[\w.-]+\/)+[\w.-]+\.\w+|[\w-]+\.(?:[jt]sx?|json|ya?ml|md|py|go|rs|java|rb|php|css|scss|html|sql|toml|sh))(?=[\s),:;]|$)/gm;
+
+export interface PlanStep {
+	index: number;
+	title: string;
+	details: string;
+	files: string[];
+}
+
+export interface Plan {
+	summary: string;
+	steps: PlanStep[];
+	files: string[];
+	risks: string[];
+	markdown: string;
+}
+
+export interface AutoExecuteRule {
+	maxSteps?: number;
+	allowedPaths?: string;
+	allowRisks?: boolean;
+}
+
+function findFiles(text: string): string[] {
+	const files = new Set<string>();
+	for (const match of text.matchAll(FILE_PATTERN)) {
+		const candidate = (match[1] ?? match[2]).replace(/[.,:;]+$/, '');
+		// Backticked text is only a file if it looks like a path or a file name
+		if (/\//.test(candidate) || /^[\w.-]+\.\w{1,5}$/.test(candidate)) {
+			if (!/^https?:/.test(candidate) && !/^\d+(\.\d+)+$/.test(candidate)) {
+				files.add(candidate);
+			}
+		}
+	}
+	return [...files];
+}
+
+function isBlockedTool(name = ''): boolean {
+	return PLAN_MODE_BLOCKED_TOOLS.includes(name) || name.startsWith('mcp__');
+}
+
+function getToolCallRisks({ name = '', input = {} }: ToolCall): string[] {
+	const matching = (patterns: Record<string, RegExp>, value: unknown) =>
+		typeof value === 'string'
+			? Object.entries(patterns)
+					.filter(([, pattern]) => pattern.test(value))
+					.map(([flag]) => flag)
+			: [];
+	if (name === 'Bash') {
+		return matching(COMMAND_RISKS, input.command);
+	}
+	if (name.startsWith('mcp__')) {
+		return ['external_request'];
+	}
+	return matching(FILE_RISKS, input.file_path ?? input.notebook_path);
+}
+
+/**
+ * Flags the risks of a plan from the tool calls that were blocked while planning: the
+ * commands Claude tried to run, the files it tried to edit and the MCP tools it tried to use.
+ */
+export function findPlanRisks(messages: SDKMessage[]): string[] {
+	const risks = getToolCalls(messages)
+		.filter((toolCall) => isBlockedTool(toolCall.name))
+		.flatMap(getToolCallRisks);
+	return [...new Set(risks)].sort();
+}
+
+/**
+ * Splits a markdown plan into ordered steps with the files they touch, and flags its risks
+ * from the tool calls blocked in the messages of the plan run. Steps are numbered list
+ * items or "Step N" headings; plans without either fall back to top-level bullet points.
+ */
+export function parsePlan(markdown: string, messages: SDKMessage[] = []): Plan {
+	const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+	const stepStart = (line: string) =>
+		/^\s{0,3}(\d+)[.)]\s+(.+)$/.exec(line) ??
+		/^#{1,6}\s*(?:Step\s+)?(\d+)[.:)]?\s*[:.-]?\s*(.+)$/i.exec(line);
+	let starts = lines.map((line, index) => ({ index, match: stepStart(line) }));
+	if (!starts.some((start) => start.match)) {
+		starts = lines.map((line, index) => ({ index, match: /^[-*]\s+()(.+)$/.exec(line) }));
+	}
+	const stepLines = starts.filter((start) => start.match);
+
+	const steps: PlanStep[] = stepLines.map((start, position) => {
+		const end = stepLines[position + 1]?.index ?? lines.length;
+		const title = start.match![2].replace(/\*\*/g, '').trim();
+		const details = lines
+			.slice(start.index + 1, end)
+			.join('\n')
+			.trim();
+		return {
+			index: position + 1,
+			title,
+			details,
+			files: findFiles(`${title}\n${details}`),
+		};
+	});
+
+	const summary = lines
+		.slice(0, stepLines[0]?.index ?? lines.length)
+		.filter((line) => !/^#{1,6}\s/.test(line))
+		.join('\n')
+		.trim();
+
+	return {
+		summary,
+		steps,
+		files: [...new Set(steps.flatMap((step) => step.files))],
+		risks: findPlanRisks(messages),
+		markdown,
+	};
+}
+
+/**
+ * Returns the plan Claude presented with the ExitPlanMode tool, or undefined if it
+ * never called the tool.
+ */
+export function findPlan(messages: SDKMessage[]): string | undefined {
+	let plan: string | undefined;
+	for (const message of messages) {
+		if (message.type !== 'assistant') continue;
+		for (const block of getContentBlocks(message)) {
+			if (block.type === 'tool_use' && EXIT_PLAN_MODE_TOOLS.includes(block.name as string)) {
+				plan = String(block.input?.plan ?? '');
+			}
+		}
+	}
+	return plan;
+}
+
+/**
+ * Reads the Plan parameter of Approve Plan, which may be the plan object, its JSON or
+ * an expression resolving to either.
+ */
+export function toPlan(value: unknown): Plan | undefined {
+	let plan = value;
+	if (typeof plan === 'string') {
+		if (plan.trim() === '') return undefined;
+		try {
+			plan = JSON.parse(plan);
+		} catch {
+			return parsePlan(plan as string);
+		}
+	}
+	if (!plan || typeof plan !== 'object' || !Array.isArray((plan as IDataObject).steps)) {
+		return undefined;
+	}
+	return plan as Plan;
+}
+
+/**
+ * Reads step numbers from "2, 4" or [2, 4].
+ */
+export function toStepNumbers(value: unknown): number[] {
+	const values = Array.isArray(value) ? value : String(value ?? '').split(',');
+	return values
+		.map((v) => parseInt(String(v).trim(), 10))
+		.filter((n) => Number.isInteger(n) && n > 0);
+}
+
+/**
+ * Writes the approved part of a plan into the prompt that executes it.
+ */
+export function describeApprovedPlan(plan: Plan, skippedSteps: number[]): string {
+	const approved = plan.steps.filter((step) => !skippedSteps.includes(step.index));
+	const skipped = plan.steps.filter((step) => skippedSteps.includes(step.index));
+	let description = `Execute only these steps of the plan, in order:\n${approved
+		.map((step) => `${step.index}. ${step.title}${step.details ? `\n${step.details}` : ''}`)
+		.join('\n')}`;
+	if (skipped.length > 0) {
+		description += `\n\nDo not carry out these steps, they were not approved:\n${skipped
+			.map((step) => `${step.index}. ${step.title}`)
+			.join('\n')}`;
+	}
+	return description;
+}
+
+/**
+ * Writes the system prompt of a plan run for the Plan Detail Level.
+ */
+export function getPlanningInstructions(detailLevel: string): string {
+	let prompt = `You are Claude Code in planning mode. Your task is to create a comprehensive plan for the user's request and then use the ExitPlanMode tool to present it.
+
+Planning Guidelines:
+- Analyze the task thoroughly before creating the plan
+- Break down the task into logical, sequential steps
+- Consider dependencies between steps
+- Identify potential challenges or considerations
+- Suggest best practices and optimization opportunities`;
+
+	switch (detailLevel) {
+		case 'high':
+			prompt += `\n\nPlan Detail Level: HIGH LEVEL
+- Focus on major phases and key milestones
+- Keep each step broad and strategic
+- Limit to 3-7 main steps maximum`;
+			break;
+		case 'stepwise':
+			prompt += `\n\nPlan Detail Level: STEP-BY-STEP  
+- Provide granular, actionable steps
+- Include specific commands, file names, and configurations
+- Break down complex steps into sub-steps
+- Include validation and testing steps`;
+			break;
+		default: // 'detailed'
+			prompt += `\n\nPlan Detail Level: DETAILED
+- Provide specific, actionable steps
+- Include relevant technical details
+- Balance comprehensiveness with readability
+- Include key considerations for each step`;
+	}
+
+	prompt += `\n\nRead-Only: Files cannot be changed and commands cannot be run while planning. Do not try to execute any part of the plan; whether it runs is decided after you present it.`;
+
+	prompt += `\n\nAfter creating your plan, use the ExitPlanMode tool to present it for review and approval.`;
+
+	return prompt;
+}
+
+/**
+ * Asks for a plan of the task, presented with the ExitPlanMode tool.
+ */
+export function getPlanPrompt(prompt: string, detailLevel: string): string {
+	return `Please create a ${detailLevel} plan for the following task. After creating the plan, use the ExitPlanMode tool to present it for approval:\n\n${prompt}`;
+}
+
+/**
+ * Asks the session of a plan to execute it, with the user's modifications and, when the
+ * parsed plan is passed back in, exactly the approved steps.
+ */
+export function getApprovePrompt(
+	prompt: string,
+	modifications: string | undefined,
+	plan: Plan | undefined,
+	skippedSteps: number[],
+): string {
+	let approvePrompt = modifications?.trim()
+		? `Please execute the previously created plan with the following modifications:\n\n${modifications}\n\nOriginal request: ${prompt}`
+		: `Please execute the previously created plan for:\n\n${prompt}`;
+	if (plan) {
+		approvePrompt += `\n\n${describeApprovedPlan(plan, skippedSteps)}`;
+	} else if (skippedSteps.length > 0) {
+		approvePrompt += `\n\nDo not carry out steps ${skippedSteps.join(', ')} of the plan, they were not approved.`;
+	}
+	return approvePrompt;
+}
+
+/**
+ * Checks a plan against the user's auto-execute rule and returns the reasons it fails,
+ * so an empty list means the plan may run without review.
+ */
+export function checkAutoExecuteRule(plan: Plan, rule: AutoExecuteRule): string[] {
+	const reasons: string[] = [];
+	if (plan.steps.length === 0) {
+		reasons.push('The plan has no steps');
+	}
+	if (rule.maxSteps && plan.steps.length > rule.maxSteps) {
+		reasons.push(`The plan has ${plan.steps.length} steps, more than ${rule.maxSteps}`);
+	}
+	if (rule.allowedPaths?.trim()) {
+		const isAllowed = createGlobMatcher(rule.allowedPaths);
+		const outside = plan.files.filter((file) => !isAllowed(file.replace(/^\.\//, '')));
+		if (outside.length > 0) {
+			reasons.push(`The plan touches files outside the allowed paths: ${outside.join(', ')}`);
+		}
+	}
+	if (!rule.allowRisks && plan.risks.length > 0) {
+		reasons.push(`The plan is flagged as risky: ${plan.risks.join(', ')}`);
+	}
+	return reasons;
+}
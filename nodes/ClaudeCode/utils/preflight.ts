@@ -0,0 +1,470 @@
+import type { ICredentialDataDecryptedObject, IDataObject, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfigDirectory, getGlobalConfigFile } from './agents';
+import { runGit } from './git';
+import { getCredentialEnvironment } from './query';
+import { getClaudeCodeVersion, getSystemContext, type DebugLog, type DebugTrace } from './trace';
+
+// Free disk space below which runs are likely to fail, or at least to fail to write
+const MIN_FREE_BYTES = 100 * 1024 * 1024;
+const LOW_FREE_BYTES = 1024 * 1024 * 1024;
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface PreflightCheck {
+	check: string;
+	status: CheckStatus;
+	message: string;
+	details?: IDataObject;
+}
+
+export interface ProjectPathValidation {
+	valid: boolean;
+	error?: string;
+	warning?: string;
+}
+
+export interface PreflightOptions {
+	credentials?: ICredentialDataDecryptedObject;
+	// Names of the MCP servers defined in the node
+	nodeMcpServers: string[];
+}
+
+// The variable each credential type cannot work without
+const REQUIRED_CREDENTIAL_VARIABLES: Record<string, string> = {
+	apiKey: 'ANTHROPIC_API_KEY',
+	bedrock: 'AWS_REGION',
+	customBaseUrl: 'ANTHROPIC_BASE_URL',
+	vertex: 'ANTHROPIC_VERTEX_PROJECT_ID',
+};
+
+type JsonFile = { exists: false } | { exists: true; value?: IDataObject; error?: string };
+
+function readJsonFile(file: string): JsonFile {
+	if (!fs.existsSync(file)) {
+		return { exists: false };
+	}
+	try {
+		const value = JSON.parse(fs.readFileSync(file, 'utf8'));
+		if (!value || typeof value !== 'object' || Array.isArray(value)) {
+			return { exists: true, error: 'The file does not contain a JSON object' };
+		}
+		return { exists: true, value };
+	} catch (error) {
+		return { exists: true, error: (error as Error).message };
+	}
+}
+
+async function getCliVersion(): Promise<{ version?: string; error?: string }> {
+	let cliPath: string;
+	try {
+		cliPath = require.resolve('@anthropic-ai/claude-code/cli.js');
+	} catch {
+		return { error: 'The Claude Code CLI is not installed next to the SDK' };
+	}
+	return await new Promise((resolve) => {
+		execFile(
+			process.execPath,
+			[cliPath, '--version'],
+			{ timeout: 15000 },
+			(error, stdout, stderr) => {
+				if (error) {
+					resolve({ error: (stderr || error.message).trim() });
+				} else {
+					// Printed as "1.0.56 (Claude Code)"
+					resolve({ version: stdout.trim().split(' ')[0] });
+				}
+			},
+		);
+	});
+}
+
+async function checkClaudeCode(): Promise<PreflightCheck> {
+	const sdkVersion = getClaudeCodeVersion();
+	if (!sdkVersion) {
+		return {
+			check: 'claudeCode',
+			status: 'fail',
+			message: 'The Claude Code SDK (@anthropic-ai/claude-code) cannot be found',
+		};
+	}
+	const cli = await getCliVersion();
+	if (cli.error) {
+		return {
+			check: 'claudeCode',
+			status: 'fail',
+			message: `The Claude Code CLI does not start: ${cli.error}`,
+			details: { sdkVersion },
+		};
+	}
+	return {
+		check: 'claudeCode',
+		status: 'pass',
+		message: `Claude Code ${cli.version}`,
+		details: { sdkVersion, cliVersion: cli.version ?? null },
+	};
+}
+
+function checkAuthentication(
+	credentials: ICredentialDataDecryptedObject | undefined,
+	settings: IDataObject,
+): PreflightCheck {
+	if (credentials) {
+		const authType = (credentials.authType as string) || 'apiKey';
+		const required = REQUIRED_CREDENTIAL_VARIABLES[authType];
+		if (required && !getCredentialEnvironment(credentials)[required]) {
+			return {
+				check: 'authentication',
+				status: 'fail',
+				message: `The Claude Code credential (${authType}) is missing a value for ${required}`,
+			};
+		}
+		return {
+			check: 'authentication',
+			status: 'pass',
+			message: `Claude Code credential (${authType})`,
+		};
+	}
+
+	const variables = [
+		'ANTHROPIC_API_KEY',
+		'ANTHROPIC_AUTH_TOKEN',
+		'CLAUDE_CODE_USE_BEDROCK',
+		'CLAUDE_CODE_USE_VERTEX',
+	].filter((name) => process.env[name]);
+	if (variables.length > 0) {
+		return {
+			check: 'authentication',
+			status: 'pass',
+			message: `Environment variables of the n8n process: ${variables.join(', ')}`,
+		};
+	}
+	if (settings.apiKeyHelper) {
+		return { check: 'authentication', status: 'pass', message: 'apiKeyHelper in the settings' };
+	}
+	const globalConfig = readJsonFile(getGlobalConfigFile());
+	const hasLogin =
+		fs.existsSync(path.join(getConfigDirectory(), '.credentials.json')) ||
+		(globalConfig.exists &&
+			!!(globalConfig.value?.oauthAccount || globalConfig.value?.primaryApiKey));
+	if (hasLogin) {
+		return {
+			check: 'authentication',
+			status: 'pass',
+			message: 'Claude Code login of the n8n user',
+		};
+	}
+	// macOS keeps the login in the keychain, which cannot be checked from here
+	return {
+		check: 'authentication',
+		status: process.platform === 'darwin' ? 'warn' : 'fail',
+		message:
+			process.platform === 'darwin'
+				? 'No credential or API key found. A Claude Code login in the macOS keychain may still work.'
+				: 'No credential, API key environment variable or Claude Code login found',
+	};
+}
+
+function checkJsonFile(check: string, file: string, label: string): PreflightCheck {
+	const result = readJsonFile(file);
+	if (!result.exists) {
+		return { check, status: 'pass', message: `No ${label}`, details: { path: file } };
+	}
+	if (result.error) {
+		return {
+			check,
+			status: 'fail',
+			message: `${label} is not valid JSON: ${result.error}`,
+			details: { path: file },
+		};
+	}
+	return { check, status: 'pass', message: `${label} is valid`, details: { path: file } };
+}
+
+function checkMcpServers(
+	cwd: string,
+	nodeMcpServers: string[],
+	settings: IDataObject,
+): PreflightCheck {
+	const servers: IDataObject[] = nodeMcpServers.map((name) => ({ name, source: 'node' }));
+
+	// Project servers from .mcp.json only load once they are approved
+	const mcpJson = readJsonFile(path.join(cwd, '.mcp.json'));
+	const projectServers =
+		mcpJson.exists && mcpJson.value
+			? Object.keys((mcpJson.value.mcpServers as IDataObject) ?? {})
+			: [];
+	const enabled = (settings.enabledMcpjsonServers as string[] | undefined) ?? [];
+	const disabled = (settings.disabledMcpjsonServers as string[] | undefined) ?? [];
+	const pending: string[] = [];
+	for (const name of projectServers) {
+		const approval = disabled.includes(name)
+			? 'rejected'
+			: enabled.includes(name) || settings.enableAllProjectMcpServers
+				? 'approved'
+				: 'pending';
+		if (approval === 'pending') pending.push(name);
+		servers.push({ name, source: '.mcp.json', approval, loads: approval === 'approved' });
+	}
+
+	// User servers apply everywhere, local servers only to this project
+	const globalConfig = readJsonFile(getGlobalConfigFile());
+	if (globalConfig.exists && globalConfig.value) {
+		for (const name of Object.keys((globalConfig.value.mcpServers as IDataObject) ?? {})) {
+			servers.push({ name, source: 'user' });
+		}
+		const project = (globalConfig.value.projects as IDataObject | undefined)?.[cwd] as
+			| IDataObject
+			| undefined;
+		for (const name of Object.keys((project?.mcpServers as IDataObject) ?? {})) {
+			servers.push({ name, source: 'local' });
+		}
+	}
+
+	const loading = servers.filter((server) => server.loads !== false).map((server) => server.name);
+	return {
+		check: 'mcpServers',
+		status: pending.length > 0 ? 'warn' : 'pass',
+		message:
+			pending.length > 0
+				? `Servers in .mcp.json that were never approved do not load: ${pending.join(', ')}. Approve them with enabledMcpjsonServers or enableAllProjectMcpServers in .claude/settings.json.`
+				: loading.length > 0
+					? `Loads ${loading.join(', ')}`
+					: 'No MCP servers configured',
+		details: { servers },
+	};
+}
+
+async function checkGit(cwd: string): Promise<PreflightCheck> {
+	try {
+		await runGit(cwd, ['rev-parse', '--is-inside-work-tree']);
+	} catch (error) {
+		const message = (error as Error).message;
+		if (/\bENOENT\b/.test(message)) {
+			return {
+				check: 'git',
+				status: 'warn',
+				message: 'git is not installed. Git options and the Git Worktree workspace mode need it.',
+			};
+		}
+		// Other failures, such as a repository git refuses to open, are not a missing repository
+		if (!/not a git repository/i.test(message)) {
+			return { check: 'git', status: 'fail', message };
+		}
+		return {
+			check: 'git',
+			status: 'warn',
+			message: 'Not a git repository. Git options and the Git Worktree workspace mode need one.',
+		};
+	}
+	const branch = (await runGit(cwd, ['branch', '--show-current']).catch(() => '')).trim();
+	let changes: string[];
+	try {
+		changes = (await runGit(cwd, ['status', '--porcelain'])).split('\n').filter(Boolean);
+	} catch (error) {
+		return {
+			check: 'git',
+			status: 'fail',
+			message: (error as Error).message,
+			details: { branch: branch || null },
+		};
+	}
+	if (changes.length > 0) {
+		return {
+			check: 'git',
+			status: 'warn',
+			message: `The worktree has ${changes.length} uncommitted change(s), so Require Clean Worktree would refuse to run`,
+			details: { branch: branch || null, clean: false, changes: changes.slice(0, 20) },
+		};
+	}
+	return {
+		check: 'git',
+		status: 'pass',
+		message: `Clean git worktree${branch ? ` on ${branch}` : ''}`,
+		details: { branch: branch || null, clean: true },
+	};
+}
+
+async function checkDiskSpace(cwd: string): Promise<PreflightCheck> {
+	const stats = await fs.promises.statfs(cwd);
+	const freeBytes = stats.bavail * stats.bsize;
+	const freeMb = Math.round(freeBytes / 1024 / 1024);
+	return {
+		check: 'diskSpace',
+		status: freeBytes < MIN_FREE_BYTES ? 'fail' : freeBytes < LOW_FREE_BYTES ? 'warn' : 'pass',
+		message: `${freeMb} MB free`,
+		details: { freeBytes },
+	};
+}
+
+/**
+ * Checks what a run in the project needs besides the directory itself: the CLI, a way to
+ * authenticate, valid project configuration, the MCP servers that would load, the git
+ * state and free disk space. No check starts Claude Code or costs tokens.
+ */
+export async function runPreflightChecks(
+	cwd: string,
+	options: PreflightOptions,
+): Promise<PreflightCheck[]> {
+	const settingsFiles = [
+		path.join(getConfigDirectory(), 'settings.json'),
+		path.join(cwd, '.claude', 'settings.json'),
+		path.join(cwd, '.claude', 'settings.local.json'),
+	];
+	// Later files override earlier ones, as in the CLI
+	const settings: IDataObject = Object.assign(
+		{},
+		...settingsFiles.map((file) => {
+			const result = readJsonFile(file);
+			return result.exists ? (result.value ?? {}) : {};
+		}),
+	);
+
+	const checks = [
+		await checkClaudeCode(),
+		checkAuthentication(options.credentials, settings),
+		checkJsonFile('mcpJson', path.join(cwd, '.mcp.json'), '.mcp.json'),
+		checkJsonFile('settings', path.join(cwd, '.claude', 'settings.json'), '.claude/settings.json'),
+		checkMcpServers(cwd, options.nodeMcpServers, settings),
+		await checkGit(cwd),
+	];
+	try {
+		checks.push(await checkDiskSpace(cwd));
+	} catch (error) {
+		checks.push({
+			check: 'diskSpace',
+			status: 'warn',
+			message: `Free disk space could not be read: ${(error as Error).message}`,
+		});
+	}
+	return checks;
+}
+
+/**
+ * Checks that the Project Path is a directory Claude Code can read. A directory it cannot
+ * write to is valid, with a warning.
+ */
+export function validateProjectPath(projectPath: string, log?: DebugLog): ProjectPathValidation {
+	const resolvedPath = path.resolve(projectPath);
+
+	log?.(`Validating project path: ${projectPath} -> ${resolvedPath}`);
+
+	// Check if path exists
+	if (!fs.existsSync(resolvedPath)) {
+		return {
+			valid: false,
+			error: `Project directory does not exist: ${resolvedPath}. Please create the directory or check the path.`,
+		};
+	}
+
+	// Check if it's a directory
+	const stats = fs.statSync(resolvedPath);
+	if (!stats.isDirectory()) {
+		return {
+			valid: false,
+			error: `Project path is not a directory: ${resolvedPath}. Please specify a valid directory path.`,
+		};
+	}
+
+	// Check read permissions
+	try {
+		fs.accessSync(resolvedPath, fs.constants.R_OK);
+	} catch {
+		return {
+			valid: false,
+			error: `No read permission for project directory: ${resolvedPath}. Please check directory permissions.`,
+		};
+	}
+
+	// Check write permissions
+	try {
+		fs.accessSync(resolvedPath, fs.constants.W_OK);
+	} catch {
+		return {
+			valid: true,
+			warning: `No write permission for project directory: ${resolvedPath}. Claude Code may not be able to create or modify files.`,
+		};
+	}
+
+	log?.(`Project path validation successful: ${resolvedPath}`);
+
+	return { valid: true };
+}
+
+/**
+ * Returns the working directory of a run, or undefined when no Project Path is set.
+ */
+export function getWorkingDirectory(
+	node: INode,
+	projectPath: string,
+	itemIndex: number,
+	log?: DebugLog,
+): string | undefined {
+	const trimmedPath = projectPath.trim();
+	if (!trimmedPath) {
+		return undefined;
+	}
+	const validation = validateProjectPath(trimmedPath, log);
+	if (!validation.valid) {
+		throw new NodeOperationError(node, `Project Path Error: ${validation.error}`, {
+			itemIndex,
+			description:
+				'Please check that the project directory exists and has appropriate permissions.',
+		});
+	}
+	if (validation.warning) {
+		log?.(`Warning: ${validation.warning}`);
+	}
+	return path.resolve(trimmedPath);
+}
+
+/**
+ * Runs the Test Project Path operation: validates the directory and, if it can be read,
+ * runs the preflight checks in it.
+ */
+export async function testProjectPath(
+	projectPath: string,
+	options: PreflightOptions,
+	trace?: DebugTrace,
+	log?: DebugLog,
+): Promise<IDataObject> {
+	const trimmedPath = projectPath.trim();
+	const resolvedPath = path.resolve(trimmedPath);
+	trace?.phase('validation');
+	const validation = validateProjectPath(trimmedPath, log);
+	const checks: PreflightCheck[] = [
+		{
+			check: 'projectPath',
+			status: validation.error ? 'fail' : validation.warning ? 'warn' : 'pass',
+			message: validation.error ?? validation.warning ?? `Readable and writable: ${resolvedPath}`,
+		},
+	];
+
+	// The other checks read the project, so they need a directory that can be read
+	if (!validation.error) {
+		trace?.phase('preflight');
+		checks.push(...(await runPreflightChecks(resolvedPath, options)));
+	}
+	const summary = {
+		pass: checks.filter((check) => check.status === 'pass').length,
+		warn: checks.filter((check) => check.status === 'warn').length,
+		fail: checks.filter((check) => check.status === 'fail').length,
+	};
+	log?.(`Preflight finished with ${summary.fail} failed check(s)`, { checks });
+
+	return {
+		test: 'preflight',
+		originalPath: projectPath,
+		resolvedPath,
+		valid: validation.valid,
+		error: validation.error || null,
+		warning: validation.warning || null,
+		checks: checks as unknown as IDataObject[],
+		summary,
+		systemContext: getSystemContext(),
+		success: summary.fail === 0,
+	};
+}
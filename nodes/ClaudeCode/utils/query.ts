@@ -0,0 +1,266 @@
+import {
+	query,
+	type McpServerConfig,
+	type PermissionMode,
+	type SDKMessage,
+	type SDKResultMessage,
+	type SDKUserMessage,
+} from '@anthropic-ai/claude-code';
+import type { ICredentialDataDecryptedObject, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { recordReceived } from './messages';
+import type { DebugLog } from './trace';
+
+export interface QueryOptions {
+	prompt: string | AsyncIterable<SDKUserMessage>;
+	options: {
+		abortController: AbortController;
+		cwd?: string;
+		maxTurns: number;
+		permissionMode: PermissionMode;
+		model: string;
+		// Added to the CLI's default system prompt
+		appendSystemPrompt?: string;
+		mcpServers?: Record<string, McpServerConfig>;
+		allowedTools?: string[];
+		disallowedTools?: string[];
+		resume?: string;
+		stderr?: (data: string) => void;
+	};
+}
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Checks the Session ID of a run that resumes a session, which the CLI would otherwise
+ * reject with a less helpful message.
+ */
+export function checkSessionId(node: INode, sessionId: string, itemIndex: number) {
+	if (!sessionId) {
+		throw new NodeOperationError(
+			node,
+			'Session ID is required for the Continue and Approve Plan operations',
+			{
+				itemIndex,
+				description:
+					'Pass the sessionId returned by a previous Query or Plan run, e.g. {{$json.sessionId}}.',
+			},
+		);
+	}
+	if (!SESSION_ID_PATTERN.test(sessionId)) {
+		throw new NodeOperationError(node, `Invalid Session ID: ${sessionId}`, {
+			itemIndex,
+			type: 'invalid_session_id',
+			description: 'Session IDs are UUIDs, e.g. 550e8400-e29b-41d4-a716-446655440000.',
+		});
+	}
+}
+
+/**
+ * Maps a Claude Code API credential to the environment variables the CLI reads.
+ * Variables of the other authentication modes are unset so host settings cannot leak in.
+ */
+export function getCredentialEnvironment(
+	credentials: ICredentialDataDecryptedObject,
+): Record<string, string | undefined> {
+	const env: Record<string, string | undefined> = {
+		ANTHROPIC_API_KEY: undefined,
+		ANTHROPIC_AUTH_TOKEN: undefined,
+		ANTHROPIC_BASE_URL: undefined,
+		CLAUDE_CODE_USE_BEDROCK: undefined,
+		CLAUDE_CODE_USE_VERTEX: undefined,
+	};
+	const value = (key: string) => (credentials[key] as string | undefined) || undefined;
+
+	switch (credentials.authType) {
+		case 'bedrock':
+			env.CLAUDE_CODE_USE_BEDROCK = '1';
+			env.AWS_REGION = value('awsRegion');
+			if (value('awsAccessKeyId')) {
+				env.AWS_ACCESS_KEY_ID = value('awsAccessKeyId');
+				env.AWS_SECRET_ACCESS_KEY = value('awsSecretAccessKey');
+				env.AWS_SESSION_TOKEN = value('awsSessionToken');
+			}
+			break;
+		case 'vertex':
+			env.CLAUDE_CODE_USE_VERTEX = '1';
+			env.ANTHROPIC_VERTEX_PROJECT_ID = value('vertexProjectId');
+			env.CLOUD_ML_REGION = value('vertexRegion');
+			if (value('vertexCredentialsFile')) {
+				env.GOOGLE_APPLICATION_CREDENTIALS = value('vertexCredentialsFile');
+			}
+			break;
+		case 'customBaseUrl':
+			env.ANTHROPIC_BASE_URL = value('baseUrl');
+			env.ANTHROPIC_API_KEY = value('proxyApiKey');
+			env.ANTHROPIC_AUTH_TOKEN = value('authToken');
+			break;
+		default: // 'apiKey'
+			env.ANTHROPIC_API_KEY = value('apiKey');
+	}
+
+	return env;
+}
+
+/**
+ * Runs fn with the given variables applied to process.env and restores them afterwards.
+ * query() spawns the CLI synchronously with a copy of process.env, so the overrides only
+ * reach that subprocess and are never visible to other executions.
+ */
+export function withEnvironment<T>(env: Record<string, string | undefined>, fn: () => T): T {
+	const previous: Record<string, string | undefined> = {};
+	for (const [key, value] of Object.entries(env)) {
+		previous[key] = process.env[key];
+		if (value === undefined) {
+			delete process.env[key];
+		} else {
+			process.env[key] = value;
+		}
+	}
+
+	try {
+		return fn();
+	} finally {
+		for (const [key, value] of Object.entries(previous)) {
+			if (value === undefined) {
+				delete process.env[key];
+			} else {
+				process.env[key] = value;
+			}
+		}
+	}
+}
+
+/**
+ * Streams a Claude Code session to completion. Returning false from onMessage ends the
+ * session early and stops the CLI process.
+ */
+export async function runQuery(
+	queryOptions: QueryOptions,
+	environment: Record<string, string | undefined>,
+	log?: DebugLog,
+	onMessage?: (message: SDKMessage, messages: SDKMessage[]) => boolean | void,
+): Promise<SDKMessage[]> {
+	const messages: SDKMessage[] = [];
+	const startTime = Date.now();
+
+	// The SDK starts the CLI in options.cwd, so the n8n process keeps its own working directory
+	if (queryOptions.options.cwd) {
+		log?.(`Running in: ${queryOptions.options.cwd}`);
+	}
+
+	const response = withEnvironment(environment, () => query(queryOptions));
+	for await (const message of response) {
+		recordReceived(message);
+		messages.push(message);
+
+		log?.(`Received message type: ${message.type}`, { sessionId: message.session_id });
+
+		// Track progress
+		if (log && message.type === 'assistant' && message.message?.content) {
+			const content = message.message.content[0];
+			if (content.type === 'text') {
+				log(`Assistant: ${content.text.substring(0, 100)}...`);
+			} else if (content.type === 'tool_use') {
+				log(`Tool use: ${content.name}`);
+			}
+		}
+
+		if (onMessage?.(message, messages) === false) {
+			queryOptions.options.abortController.abort();
+			break;
+		}
+	}
+
+	const duration = Date.now() - startTime;
+	log?.(`Execution completed in ${duration}ms with ${messages.length} messages`);
+
+	return messages;
+}
+
+/**
+ * Returns the last result message, which ends the last query when messages hold several,
+ * e.g. a failed attempt and its retry.
+ */
+export function getResultMessage(messages: SDKMessage[]): SDKResultMessage | undefined {
+	for (let index = messages.length - 1; index >= 0; index--) {
+		const message = messages[index];
+		if (message.type === 'result') {
+			return message;
+		}
+	}
+	return undefined;
+}
+
+export function getSessionId(messages: SDKMessage[]): string | null {
+	const sessionMessage = getResultMessage(messages) ?? messages.find((m) => m.type === 'system');
+	return sessionMessage?.session_id ?? null;
+}
+
+/**
+ * Returns the result text of a successful run, or null if the run did not succeed.
+ */
+export function getResult(messages: SDKMessage[]): string | null {
+	const resultMessage = getResultMessage(messages);
+	return resultMessage?.subtype === 'success' ? resultMessage.result : null;
+}
+
+export type StopReason = 'completed' | 'error' | 'incomplete' | 'max_turns';
+
+/**
+ * Tells why a run ended: it completed, used up its turns, failed, or was stopped before
+ * the CLI sent a result.
+ */
+export function getStopReason(messages: SDKMessage[]): StopReason {
+	const resultMessage = getResultMessage(messages);
+	if (!resultMessage) {
+		return 'incomplete';
+	}
+	if (resultMessage.subtype === 'error_max_turns') {
+		return 'max_turns';
+	}
+	return resultMessage.subtype === 'success' && !resultMessage.is_error ? 'completed' : 'error';
+}
+
+/**
+ * Returns the messages of the last query when messages hold several, e.g. a run and its
+ * continuations. The CLI starts every query with a system init message.
+ */
+export function getLastQuery(messages: SDKMessage[]): SDKMessage[] {
+	for (let index = messages.length - 1; index > 0; index--) {
+		const message = messages[index];
+		if (message.type === 'system' && message.subtype === 'init') {
+			return messages.slice(index);
+		}
+	}
+	return messages;
+}
+
+export interface RunMetrics {
+	duration_ms: number;
+	num_turns: number;
+	total_cost_usd: number;
+	// Token counts by kind, e.g. input_tokens
+	usage: Record<string, number>;
+}
+
+/**
+ * Adds up the duration, turns, cost and token usage the CLI reported for every query in
+ * messages, or returns null if none of them sent a result.
+ */
+export function getRunMetrics(messages: SDKMessage[]): RunMetrics | null {
+	let metrics: RunMetrics | null = null;
+	for (const message of messages) {
+		if (message.type !== 'result') continue;
+		metrics ??= { duration_ms: 0, num_turns: 0, total_cost_usd: 0, usage: {} };
+		metrics.duration_ms += message.duration_ms;
+		metrics.num_turns += message.num_turns;
+		metrics.total_cost_usd += message.total_cost_usd;
+		for (const [kind, count] of Object.entries(message.usage ?? {})) {
+			if (typeof count === 'number') {
+				metrics.usage[kind] = (metrics.usage[kind] ?? 0) + count;
+			}
+		}
+	}
+	return metrics;
+}
@@ -0,0 +1,207 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { getResultMessage, runQuery, type QueryOptions } from './query';
+import type { DebugLog } from './trace';
+
+export type ErrorType =
+	| 'auth'
+	| 'cli_missing'
+	| 'execution_error'
+	| 'max_turns'
+	| 'overloaded'
+	| 'process_crashed'
+	| 'rate_limit'
+	| 'session_not_found'
+	| 'timeout'
+	| 'tool_error';
+
+// Checked in order against the error message and the CLI's stderr
+const ERROR_PATTERNS: Array<{ type: ErrorType; pattern: RegExp }> = [
+	{
+		type: 'cli_missing',
+		pattern: /executable not found|Failed to spawn Claude Code process|\bENOENT\b/i,
+	},
+	{ type: 'rate_limit', pattern: /API Error: 429|rate_limit_error|rate limit/i },
+	{
+		type: 'overloaded',
+		pattern: /API Error: 5\d\d|overloaded_error|overloaded|ECONNRESET|socket hang up/i,
+	},
+	{
+		type: 'auth',
+		pattern:
+			/API Error: 40[13]|authentication_error|permission_error|invalid (x-)?api[- ]key|run \/login|OAuth token/i,
+	},
+	{ type: 'timeout', pattern: /\bETIMEDOUT\b|timed out|request timeout/i },
+	{ type: 'session_not_found', pattern: /No conversation found with session ID/i },
+	// Last, so a CLI that exits because of one of the errors above keeps that type
+	{ type: 'process_crashed', pattern: /Claude Code process exited with code/i },
+];
+
+const RETRYABLE_ERRORS: ErrorType[] = ['overloaded', 'process_crashed', 'rate_limit'];
+
+// Sent when a session is resumed after an interrupted attempt
+const CONTINUE_PROMPT =
+	'The previous attempt was interrupted by a temporary error. Continue the task from where you left off.';
+
+export interface RetryOptions {
+	maxRetries: number;
+	// Seconds before the first retry; doubles with every further retry
+	initialDelay: number;
+}
+
+/**
+ * Sorts an error from the SDK or the CLI into one of the error types used in errorType.
+ */
+export function classifyError(error: unknown, stderr = ''): ErrorType {
+	if (error instanceof Error && error.name === 'AbortError') {
+		return 'timeout';
+	}
+	const text = `${error instanceof Error ? error.message : String(error)}\n${stderr}`;
+	return ERROR_PATTERNS.find(({ pattern }) => pattern.test(text))?.type ?? 'execution_error';
+}
+
+/**
+ * Turns an error thrown by the query into the error the node reports, using the CLI's
+ * stderr to explain it. Aborts are passed on as they are.
+ */
+export function getQueryError(
+	node: INode,
+	error: unknown,
+	stderr: string,
+	sessionId: string,
+	itemIndex: number,
+): Error {
+	if (sessionId && stderr.includes('No conversation found with session ID')) {
+		return new NodeOperationError(node, `Session not found or expired: ${sessionId}`, {
+			itemIndex,
+			type: 'session_not_found',
+			description:
+				'Claude Code has no stored conversation with this ID. Sessions are stored per working directory, so make sure Project Path matches the run that created the session, or start a new Query.',
+		});
+	}
+	if (error instanceof Error && error.name === 'AbortError') {
+		return error;
+	}
+	const message = error instanceof Error ? error.message : String(error);
+	return new NodeOperationError(node, `Claude Code execution failed: ${message}`, {
+		itemIndex,
+		type: classifyError(error, stderr),
+		description: stderr.trim().slice(-2000) || message,
+	});
+}
+
+/**
+ * Returns the error type of a run that ended without a successful result, if any.
+ */
+export function getResultErrorType(messages: SDKMessage[]): ErrorType | undefined {
+	const resultMessage = getResultMessage(messages);
+	if (!resultMessage) {
+		return undefined;
+	}
+	if (resultMessage.subtype === 'error_max_turns') {
+		return 'max_turns';
+	}
+	if (resultMessage.subtype === 'error_during_execution') {
+		return 'tool_error';
+	}
+	// API errors the CLI gave up on end as a "successful" result flagged with is_error
+	return resultMessage.subtype === 'success' && resultMessage.is_error
+		? classifyError(resultMessage.result)
+		: undefined;
+}
+
+export function isRetryable(type: ErrorType): boolean {
+	return RETRYABLE_ERRORS.includes(type);
+}
+
+/**
+ * Runs a query and retries rate limits, overloaded errors and crashed CLI processes with
+ * exponential backoff. A retry resumes the session when Claude already answered in it,
+ * otherwise it starts over with the same prompt. Aborted runs are never retried. The messages
+ * of all attempts are returned together, so tool calls of failed attempts are kept.
+ */
+export async function runQueryWithRetry(
+	queryOptions: QueryOptions,
+	environment: Record<string, string | undefined>,
+	retry: RetryOptions,
+	log?: DebugLog,
+	onMessage?: (message: SDKMessage, messages: SDKMessage[]) => boolean | void,
+	onRetry?: (attempt: number, type: ErrorType, delayMs: number) => void,
+): Promise<SDKMessage[]> {
+	const { abortController, stderr: onStderr } = queryOptions.options;
+	let attemptOptions = queryOptions;
+	const messages: SDKMessage[] = [];
+	for (let attempt = 1; ; attempt++) {
+		let sessionId: string | undefined;
+		let answered = false;
+		let stderr = '';
+		let type: ErrorType;
+		let failure: { error: unknown } | undefined;
+		// Filled while streaming, so a crashed attempt keeps what it received
+		let attemptMessages: SDKMessage[] = [];
+		try {
+			await runQuery(
+				{
+					...attemptOptions,
+					options: {
+						...attemptOptions.options,
+						stderr: (data: string) => {
+							stderr += data;
+							onStderr?.(data);
+						},
+					},
+				},
+				environment,
+				log,
+				(message, received) => {
+					attemptMessages = received;
+					sessionId = message.session_id || sessionId;
+					answered ||= message.type === 'assistant';
+					return onMessage?.(message, received);
+				},
+			);
+			messages.push(...attemptMessages);
+			const resultType = getResultErrorType(attemptMessages);
+			if (!resultType) {
+				return messages;
+			}
+			type = resultType;
+		} catch (error) {
+			if (abortController.signal.aborted) {
+				throw error;
+			}
+			messages.push(...attemptMessages);
+			type = classifyError(error, stderr);
+			failure = { error };
+		}
+
+		// Streaming prompts cannot be sent again, so they can only be retried by resuming
+		const canResume = sessionId !== undefined && answered;
+		if (
+			!isRetryable(type) ||
+			attempt > retry.maxRetries ||
+			(!canResume && typeof queryOptions.prompt !== 'string')
+		) {
+			if (failure) {
+				throw failure.error;
+			}
+			return messages;
+		}
+		if (canResume) {
+			attemptOptions = {
+				prompt: CONTINUE_PROMPT,
+				options: { ...queryOptions.options, resume: sessionId },
+			};
+		}
+
+		const delayMs = retry.initialDelay * 1000 * 2 ** (attempt - 1);
+		onRetry?.(attempt, type, delayMs);
+		await new Promise((resolve) => setTimeout(resolve, delayMs));
+		if (abortController.signal.aborted) {
+			throw Object.assign(new Error('Claude Code was aborted while waiting to retry'), {
+				name: 'AbortError',
+			});
+		}
+	}
+}
@@ -0,0 +1,65 @@
+import type { IDataObject, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+
+export interface PromptVariable {
+	name: string;
+	field: string;
+	defaultValue?: string;
+}
+
+/**
+ * Reads a field such as "issue.title" or "labels[0].name" from item JSON.
+ */
+function getField(json: IDataObject, field: string): unknown {
+	let value: unknown = json;
+	for (const key of field.replace(/\[(\w+)\]/g, '.$1').split('.')) {
+		if (key === '') continue;
+		if (value === null || typeof value !== 'object') {
+			return undefined;
+		}
+		value = (value as IDataObject)[key];
+	}
+	return value;
+}
+
+/**
+ * Fills the {name} placeholders of the variables in a prompt template from the item's JSON.
+ * Each variable may list several fields, tried in order, so one template serves items of
+ * different shapes. Braces that do not name a variable are left alone.
+ */
+export function fillPromptTemplate(
+	node: INode,
+	template: string,
+	variables: PromptVariable[],
+	json: IDataObject,
+	itemIndex: number,
+): string {
+	if (variables.length === 0 || !template) {
+		return template;
+	}
+	const values = new Map<string, string>();
+	for (const variable of variables) {
+		const fields = variable.field
+			.split(',')
+			.map((field) => field.trim())
+			.filter((field) => field !== '');
+		const value = fields
+			.map((field) => getField(json, field))
+			.find((candidate) => candidate !== undefined && candidate !== null && candidate !== '');
+		if (value === undefined) {
+			if (variable.defaultValue === undefined || variable.defaultValue === '') {
+				throw new NodeOperationError(node, `No value for prompt variable "${variable.name}"`, {
+					itemIndex,
+					type: 'missing_variable',
+					description: `The input item has none of the fields ${fields.join(', ')}. Set a Default Value to make the variable optional.`,
+				});
+			}
+			values.set(variable.name, variable.defaultValue);
+		} else {
+			values.set(variable.name, typeof value === 'string' ? value : JSON.stringify(value));
+		}
+	}
+	return template.replace(/\{([\w-]+)\}/g, (placeholder, name: string) =>
+		values.has(name) ? values.get(name)! : placeholder,
+	);
+}
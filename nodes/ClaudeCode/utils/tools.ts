@@ -0,0 +1,20 @@
+import type { INodePropertyOptions } from 'n8n-workflow';
+
+// Built-in Claude Code tools, shared by the Allowed Tools parameter of every node
+export const BUILT_IN_TOOL_OPTIONS: INodePropertyOptions[] = [
+	{ name: 'Bash', value: 'Bash', description: 'Execute bash commands' },
+	{ name: 'Edit', value: 'Edit', description: 'Edit files' },
+	{ name: 'Exit Plan Mode', value: 'exit_plan_mode', description: 'Exit planning mode' },
+	{ name: 'Glob', value: 'Glob', description: 'Find files by pattern' },
+	{ name: 'Grep', value: 'Grep', description: 'Search file contents' },
+	{ name: 'LS', value: 'LS', description: 'List directory contents' },
+	{ name: 'MultiEdit', value: 'MultiEdit', description: 'Make multiple edits' },
+	{ name: 'Notebook Edit', value: 'NotebookEdit', description: 'Edit Jupyter notebooks' },
+	{ name: 'Notebook Read', value: 'NotebookRead', description: 'Read Jupyter notebooks' },
+	{ name: 'Read', value: 'Read', description: 'Read file contents' },
+	{ name: 'Task', value: 'Task', description: 'Launch agents for complex searches' },
+	{ name: 'Todo Write', value: 'TodoWrite', description: 'Manage todo lists' },
+	{ name: 'Web Fetch', value: 'WebFetch', description: 'Fetch web content' },
+	{ name: 'Web Search', value: 'WebSearch', description: 'Search the web' },
+	{ name: 'Write', value: 'Write', description: 'Write files' },
+];
@@ -0,0 +1,172 @@
+import type { McpServerConfig } from '@anthropic-ai/claude-code';
+import type { IDataObject, Logger, LogMetadata } from 'n8n-workflow';
+import * as fs from 'fs';
+import { getConfigDirectory } from './agents';
+import type { QueryOptions } from './query';
+
+// Long prompts are cut in the trace so it stays readable in the output
+const MAX_TRACE_TEXT_LENGTH = 2000;
+const REDACTED = '[redacted]';
+
+export type DebugLog = (message: string, metadata?: LogMetadata) => void;
+
+export interface TracePhase {
+	phase: string;
+	startedAt: string;
+	durationMs: number;
+}
+
+/**
+ * Sends debug messages to the n8n logger, tagged with the execution, node and item so
+ * lines of items that run in parallel can be told apart. They are logged at info level
+ * because Debug Mode is switched on per node and should not need a server setting.
+ */
+export function createDebugLog(logger: Logger, metadata: LogMetadata): DebugLog {
+	return (message, details) => logger.info(`[ClaudeCode] ${message}`, { ...metadata, ...details });
+}
+
+/**
+ * Returns the version of the Claude Code SDK the node was installed with, which also
+ * ships the CLI it runs.
+ */
+export function getClaudeCodeVersion(): string | undefined {
+	try {
+		const packageJson = require.resolve('@anthropic-ai/claude-code/package.json');
+		return JSON.parse(fs.readFileSync(packageJson, 'utf8')).version;
+	} catch {
+		return undefined;
+	}
+}
+
+export function getSystemContext(): IDataObject {
+	return {
+		claudeCodeVersion: getClaudeCodeVersion() ?? null,
+		configDirectory: getConfigDirectory(),
+		currentWorkingDirectory: process.cwd(),
+		processUser: process.env.USER || 'unknown',
+		processUid: process.getuid ? process.getuid() : null,
+		platform: process.platform,
+		arch: process.arch,
+		nodeVersion: process.version,
+	};
+}
+
+function truncate(text: string): string {
+	return text.length > MAX_TRACE_TEXT_LENGTH
+		? `${text.slice(0, MAX_TRACE_TEXT_LENGTH)}[... truncated ${text.length - MAX_TRACE_TEXT_LENGTH} characters ...]`
+		: text;
+}
+
+function redactSecrets(value: unknown, secrets: string[]): unknown {
+	if (typeof value === 'string') {
+		return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value);
+	}
+	if (Array.isArray(value)) {
+		return value.map((entry) => redactSecrets(entry, secrets));
+	}
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, redactSecrets(entry, secrets)]),
+		);
+	}
+	return value;
+}
+
+function redactMcpServer(config: McpServerConfig): IDataObject {
+	const redactValues = (values?: Record<string, string>) =>
+		values && Object.fromEntries(Object.keys(values).map((key) => [key, REDACTED]));
+	if ('url' in config) {
+		return { ...config, headers: redactValues(config.headers) };
+	}
+	return { ...config, env: redactValues(config.env) };
+}
+
+/**
+ * Returns the options passed to the SDK as plain data, with environment variables and
+ * headers of MCP servers and every known secret value replaced by "[redacted]".
+ */
+export function redactQueryOptions(
+	queryOptions: QueryOptions,
+	secrets: string[] = [],
+): IDataObject {
+	// Functions and the abort controller cannot be serialized
+	const {
+		abortController: _abortController,
+		stderr: _stderr,
+		mcpServers,
+		appendSystemPrompt,
+		...options
+	} = queryOptions.options;
+	const redacted = {
+		prompt:
+			typeof queryOptions.prompt === 'string' ? truncate(queryOptions.prompt) : '[streaming input]',
+		options: {
+			...options,
+			...(appendSystemPrompt && { appendSystemPrompt: truncate(appendSystemPrompt) }),
+			...(mcpServers && {
+				mcpServers: Object.fromEntries(
+					Object.entries(mcpServers).map(([name, config]) => [name, redactMcpServer(config)]),
+				),
+			}),
+		},
+	};
+	return redactSecrets(
+		redacted,
+		secrets.filter((secret) => secret.length >= 4),
+	) as IDataObject;
+}
+
+/**
+ * Collects what happened during one item for the debugTrace output: the resolved
+ * options, the system context, how long each phase took and the options passed to the SDK.
+ */
+export class DebugTrace {
+	private readonly phases: TracePhase[] = [];
+
+	private current?: { phase: string; startedAt: number };
+
+	resolvedOptions: IDataObject = {};
+
+	queryOptions: IDataObject | null = null;
+
+	private readonly systemContext = getSystemContext();
+
+	/**
+	 * Continues a trace saved with toJSON(), e.g. of a run that waited for a tool approval.
+	 */
+	static restore(saved: IDataObject): DebugTrace {
+		const trace = new DebugTrace();
+		trace.phases.push(...((saved.phases as unknown as TracePhase[]) ?? []));
+		trace.resolvedOptions = (saved.resolvedOptions as IDataObject) ?? {};
+		return trace;
+	}
+
+	/**
+	 * Ends the running phase and starts the next one.
+	 */
+	phase(name: string) {
+		this.end();
+		this.current = { phase: name, startedAt: Date.now() };
+	}
+
+	end() {
+		if (this.current) {
+			this.phases.push({
+				phase: this.current.phase,
+				startedAt: new Date(this.current.startedAt).toISOString(),
+				durationMs: Date.now() - this.current.startedAt,
+			});
+			this.current = undefined;
+		}
+	}
+
+	toJSON(): IDataObject {
+		this.end();
+		return {
+			resolvedOptions: this.resolvedOptions,
+			systemContext: this.systemContext,
+			phases: this.phases as unknown as IDataObject[],
+			queryOptions: this.queryOptions,
+		};
+	}
+}
@@ -0,0 +1,125 @@
+import { spawn } from 'child_process';
+
+// Only the end of long command output is kept, which is where test runners report failures
+const MAX_OUTPUT_LENGTH = 20000;
+
+export interface VerificationOptions {
+	command?: string;
+	failOnError?: boolean;
+	maxRounds?: number;
+	timeout?: number;
+}
+
+export interface VerificationResult {
+	exitCode: number | null;
+	output: string;
+	timedOut: boolean;
+	durationMs: number;
+}
+
+export interface VerificationRound extends VerificationResult {
+	round: number;
+}
+
+function truncateOutput(output: string, totalLength: number): string {
+	if (totalLength <= MAX_OUTPUT_LENGTH) {
+		return output;
+	}
+	return `[... ${totalLength - MAX_OUTPUT_LENGTH} characters truncated ...]\n${output.slice(-MAX_OUTPUT_LENGTH)}`;
+}
+
+/**
+ * Runs the verification command in a shell in the working directory and collects stdout
+ * and stderr in the order they were written. A command that runs longer than the timeout,
+ * or is still running when signal aborts, is killed together with the processes it started.
+ * An aborted command rejects with an AbortError.
+ */
+export async function runVerification(
+	command: string,
+	cwd: string,
+	timeoutSeconds: number,
+	signal?: AbortSignal,
+): Promise<VerificationResult> {
+	const startedAt = Date.now();
+	return await new Promise((resolve, reject) => {
+		const abortError = () =>
+			Object.assign(new Error('The verification command was aborted'), { name: 'AbortError' });
+		if (signal?.aborted) {
+			reject(abortError());
+			return;
+		}
+
+		let output = '';
+		let totalLength = 0;
+		let timedOut = false;
+		const child = spawn(command, {
+			cwd,
+			shell: true,
+			detached: process.platform !== 'win32',
+			stdio: ['ignore', 'pipe', 'pipe'],
+		});
+		const append = (data: Buffer) => {
+			const text = data.toString();
+			output += text;
+			totalLength += text.length;
+			// Keeps memory bounded for chatty commands, truncateOutput() marks the cut
+			if (output.length > MAX_OUTPUT_LENGTH * 2) {
+				output = output.slice(-MAX_OUTPUT_LENGTH * 2);
+			}
+		};
+		child.stdout.on('data', append);
+		child.stderr.on('data', append);
+
+		// The shell runs in its own process group, so killing the group reaches everything it started
+		const killCommand = () => {
+			try {
+				if (child.pid && process.platform !== 'win32') {
+					process.kill(-child.pid, 'SIGKILL');
+				} else {
+					child.kill('SIGKILL');
+				}
+			} catch {
+				// The command exited in the meantime
+			}
+		};
+		signal?.addEventListener('abort', killCommand, { once: true });
+
+		const timer =
+			timeoutSeconds > 0
+				? setTimeout(() => {
+						timedOut = true;
+						killCommand();
+					}, timeoutSeconds * 1000)
+				: undefined;
+
+		const finish = (exitCode: number | null) => {
+			clearTimeout(timer);
+			signal?.removeEventListener('abort', killCommand);
+			if (signal?.aborted) {
+				reject(abortError());
+				return;
+			}
+			resolve({
+				exitCode,
+				output: truncateOutput(output, totalLength),
+				timedOut,
+				durationMs: Date.now() - startedAt,
+			});
+		};
+		child.on('error', (error) => {
+			output += error.message;
+			finish(null);
+		});
+		child.on('close', (code) => finish(timedOut ? null : code));
+	});
+}
+
+/**
+ * Writes the prompt that hands a failed verification back to the session.
+ */
+export function describeVerificationFailure(command: string, result: VerificationResult): string {
+	const outcome = result.timedOut
+		? 'did not finish in time'
+		: `failed with exit code ${result.exitCode ?? 'unknown'}`;
+	return `The verification command \`${command}\` ${outcome}. Fix the problems it reports, then stop; the command will be run again afterwards.\n\nOutput:\n\`\`\`\n${result.output.trim()}\n\`\`\``;
+}
@@ -0,0 +1,236 @@
+import type { INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getChanges, runGit } from './git';
+import type { GitChanges, GitOptions } from './git';
+
+export type WorkspaceMode = 'inPlace' | 'copy' | 'worktree';
+
+export interface Workspace {
+	mode: WorkspaceMode;
+	sourcePath: string;
+	path: string;
+	// Commit the changes of an isolated workspace are compared against
+	baseRef?: string;
+	// Temporary directory holding the workspace, removed afterwards
+	root?: string;
+	// Repository with a snapshot of a temporary copy, kept outside the copy itself
+	snapshotGitDir?: string;
+	// Root of a git worktree, above path when the Project Path is a subdirectory of the repository
+	worktreePath?: string;
+}
+
+// Identity for snapshot commits, which never leave the temporary directory
+const SNAPSHOT_GIT_CONFIG = [
+	'-c',
+	'user.name=n8n',
+	'-c',
+	'user.email=n8n@localhost',
+	'-c',
+	'commit.gpgsign=false',
+];
+
+// Left out of a temporary copy: the copy gets its own snapshot repository, and dependencies
+// are large and often hold absolute paths of the Project Path
+const COPY_EXCLUDES = new Set(['.git', 'node_modules']);
+
+function getGitEnvironment(workspace: Workspace): NodeJS.ProcessEnv {
+	if (!workspace.snapshotGitDir) {
+		return process.env;
+	}
+	return { ...process.env, GIT_DIR: workspace.snapshotGitDir, GIT_WORK_TREE: workspace.path };
+}
+
+export interface WorkspaceRunOptions {
+	operation: string;
+	// Session the run resumes, if any
+	resume?: string;
+	autoApprove?: boolean;
+	git: GitOptions;
+	// Whether subagents or slash commands are written for the run
+	hasAgentFiles: boolean;
+}
+
+/**
+ * Rejects options that cannot work in the workspace mode before anything is set up.
+ */
+export function checkWorkspaceOptions(
+	node: INode,
+	mode: WorkspaceMode,
+	options: WorkspaceRunOptions,
+	itemIndex: number,
+) {
+	const fail = (message: string, description: string) =>
+		new NodeOperationError(node, message, {
+			itemIndex,
+			type: 'invalid_configuration',
+			description,
+		});
+
+	if (mode === 'inPlace') {
+		if (options.hasAgentFiles) {
+			throw fail(
+				'Subagents and slash commands need an isolated workspace',
+				'They are written to the .claude folder of the working directory for the run. Set Workspace Mode to Temporary Copy or Git Worktree, or add them to the project yourself.',
+			);
+		}
+		return;
+	}
+
+	// Claude Code keeps sessions per working directory, and isolated workspaces are new every run
+	if (options.resume) {
+		throw fail(
+			'Sessions cannot be resumed in an isolated workspace',
+			'Every Temporary Copy or Git Worktree run gets a new directory, where earlier sessions are not found. Use In Place to Continue, Approve Plan or carry on a conversation.',
+		);
+	}
+	if (options.operation === 'plan' && !options.autoApprove) {
+		throw fail(
+			'Plans made in an isolated workspace can only be executed by Auto-Execute Plan',
+			'The session of the plan is deleted with the workspace, so Approve Plan could not resume it later. Turn on Auto-Execute Plan or use In Place.',
+		);
+	}
+	if (mode === 'copy' && Object.keys(options.git).length > 0) {
+		throw fail(
+			'Git options are not available with Temporary Copy',
+			'The copy leaves out .git, and its changes are already returned as the Workspace Output. Use Git Worktree to work on a branch.',
+		);
+	}
+	if (mode === 'worktree' && options.git.commit && !options.git.branch?.trim()) {
+		throw fail(
+			'Commit Changes in a Git Worktree needs a Branch',
+			'The worktree is checked out without a branch and removed after the run, so a commit without one would be lost.',
+		);
+	}
+}
+
+/**
+ * Prepares the directory Claude Code runs in. In Place uses the Project Path itself;
+ * the other modes give every run its own directory under the system temp folder.
+ * Temporary copies leave out .git and node_modules folders.
+ */
+export async function createWorkspace(
+	node: INode,
+	mode: WorkspaceMode,
+	sourcePath: string,
+	itemIndex: number,
+): Promise<Workspace> {
+	if (mode === 'inPlace') {
+		return { mode, sourcePath, path: sourcePath };
+	}
+
+	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-claudecode-workspace-'));
+	const workspace: Workspace = { mode, sourcePath, path: path.join(root, 'workspace'), root };
+
+	try {
+		if (mode === 'worktree') {
+			try {
+				await runGit(sourcePath, ['rev-parse', '--is-inside-work-tree']);
+			} catch {
+				throw new NodeOperationError(node, `Project Path is not a git repository: ${sourcePath}`, {
+					itemIndex,
+					type: 'not_a_git_repository',
+					description:
+						'The Git Worktree workspace mode needs a repository with at least one commit.',
+				});
+			}
+			try {
+				await runGit(sourcePath, ['rev-parse', '--verify', 'HEAD']);
+			} catch {
+				throw new NodeOperationError(node, 'The git repository has no commits yet', {
+					itemIndex,
+					type: 'invalid_configuration',
+					description:
+						'The Git Worktree workspace mode checks out the current commit. Create an initial commit first, or use Temporary Copy.',
+				});
+			}
+			// The worktree holds the whole repository, Claude works in the Project Path within it
+			const repositoryRoot = (await runGit(sourcePath, ['rev-parse', '--show-toplevel'])).trim();
+			workspace.worktreePath = workspace.path;
+			await runGit(sourcePath, ['worktree', 'add', '--detach', workspace.worktreePath, 'HEAD']);
+			workspace.path = path.join(
+				workspace.worktreePath,
+				path.relative(repositoryRoot, fs.realpathSync(sourcePath)),
+			);
+			// A Project Path without committed files is not part of the checkout
+			fs.mkdirSync(workspace.path, { recursive: true });
+		} else {
+			fs.cpSync(sourcePath, workspace.path, {
+				recursive: true,
+				filter: (source) => source === sourcePath || !COPY_EXCLUDES.has(path.basename(source)),
+			});
+			workspace.snapshotGitDir = path.join(root, 'snapshot.git');
+			const env = getGitEnvironment(workspace);
+			await runGit(workspace.path, ['init', '--quiet'], env);
+			await runGit(workspace.path, ['add', '-A'], env);
+			await runGit(
+				workspace.path,
+				[...SNAPSHOT_GIT_CONFIG, 'commit', '--quiet', '--allow-empty', '-m', 'snapshot'],
+				env,
+			);
+		}
+		workspace.baseRef = (
+			await runGit(workspace.path, ['rev-parse', 'HEAD'], getGitEnvironment(workspace))
+		).trim();
+	} catch (error) {
+		await removeWorkspace(workspace);
+		throw error;
+	}
+
+	return workspace;
+}
+
+/**
+ * Compares an isolated workspace with the state it started from.
+ */
+export async function getWorkspaceChanges(workspace: Workspace): Promise<GitChanges> {
+	return await getChanges(
+		workspace.path,
+		workspace.baseRef ?? 'HEAD',
+		getGitEnvironment(workspace),
+	);
+}
+
+/**
+ * Packs an isolated workspace into a gzipped tarball, leaving out git metadata.
+ */
+export async function archiveWorkspace(workspace: Workspace): Promise<Buffer> {
+	return await new Promise((resolve, reject) => {
+		execFile(
+			'tar',
+			['-czf', '-', '--exclude=.git', '-C', workspace.path, '.'],
+			{ encoding: 'buffer', maxBuffer: 512 * 1024 * 1024 },
+			(error, stdout, stderr) => {
+				if (error) {
+					reject(
+						new Error(`Could not archive workspace: ${stderr.toString().trim() || error.message}`),
+					);
+				} else {
+					resolve(stdout);
+				}
+			},
+		);
+	});
+}
+
+/**
+ * Deletes an isolated workspace. Branches created in a git worktree stay in the repository.
+ */
+export async function removeWorkspace(workspace: Workspace) {
+	if (!workspace.root) {
+		return;
+	}
+	if (workspace.mode === 'worktree') {
+		await runGit(workspace.sourcePath, [
+			'worktree',
+			'remove',
+			'--force',
+			workspace.worktreePath ?? workspace.path,
+		]).catch(() => undefined);
+		await runGit(workspace.sourcePath, ['worktree', 'prune']).catch(() => undefined);
+	}
+	fs.rmSync(workspace.root, { recursive: true, force: true });
+}